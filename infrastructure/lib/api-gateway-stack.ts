@@ -103,6 +103,12 @@ export class ApiGatewayStack extends cdk.Stack {
       integration: authIntegration,
     });
 
+    this.httpApi.addRoutes({
+      path: '/auth/logout',
+      methods: [apigatewayv2.HttpMethod.POST],
+      integration: authIntegration,
+    });
+
     this.httpApi.addRoutes({
       path: '/auth/confirm-signup',
       methods: [apigatewayv2.HttpMethod.POST],
@@ -122,6 +122,8 @@ export class CognitoStack extends cdk.Stack {
       accessTokenValidity: cdk.Duration.hours(1),
       idTokenValidity: cdk.Duration.hours(1),
       refreshTokenValidity: cdk.Duration.days(30),
+      // Lets POST /auth/logout revoke refresh tokens
+      enableTokenRevocation: true,
 
       // Prevent user existence errors for security
       preventUserExistenceErrors: true,
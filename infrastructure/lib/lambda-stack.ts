@@ -6,6 +6,7 @@ import * as lambda from 'aws-cdk-lib/aws-lambda';
 import * as lambdaEventSources from 'aws-cdk-lib/aws-lambda-event-sources';
 import * as nodejs from 'aws-cdk-lib/aws-lambda-nodejs';
 import * as logs from 'aws-cdk-lib/aws-logs';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
 import * as sqs from 'aws-cdk-lib/aws-sqs';
 import { Construct } from 'constructs';
 
@@ -96,6 +97,14 @@ export class LambdaStack extends cdk.Stack {
       },
     });
 
+    // HMAC key for signing pagination cursors
+    const cursorSecret = new secretsmanager.Secret(this, 'CursorSigningSecret', {
+      secretName: `${environment}/pagination/cursor-secret`,
+      description: 'Signing key for opaque pagination cursors',
+      generateSecretString: { passwordLength: 64, excludePunctuation: true },
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
     // Order Service Function
     this.orderFunction = new nodejs.NodejsFunction(this, 'OrderFunction', {
       ...commonLambdaProps,
@@ -110,6 +119,8 @@ export class LambdaStack extends cdk.Stack {
       environment: {
         ...commonLambdaProps.environment,
         EVENT_BUS_NAME: eventBusName || `serverless-events-${environment}`,
+        // Resolved at runtime so the key never appears in the function configuration
+        CURSOR_SECRET: `secretsmanager:${cursorSecret.secretName}`,
       },
     });
 
@@ -175,6 +186,23 @@ export class LambdaStack extends cdk.Stack {
       }
     );
 
+    // Secrets Manager and SSM permissions for `secretsmanager:`/`ssm:` config references,
+    // limited to this environment's prefix
+    const secretsPolicy = new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: ['secretsmanager:GetSecretValue', 'ssm:GetParameter'],
+      resources: [
+        `arn:aws:secretsmanager:${this.region}:${this.account}:secret:${environment}/*`,
+        `arn:aws:ssm:${this.region}:${this.account}:parameter/${environment}/*`,
+      ],
+    });
+
+    [this.authFunction, this.userFunction, this.orderFunction, this.notificationFunction].forEach(
+      func => {
+        func.addToRolePolicy(secretsPolicy);
+      }
+    );
+
     // Cognito permissions for auth and user functions
     if (userPool) {
       const cognitoPolicy = new iam.PolicyStatement({
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { defineConfig } from '@shared/core';
+
+/**
+ * Auth service environment, validated at cold start
+ */
+export const config = defineConfig(
+  z.object({
+    USER_POOL_ID: z.string().min(1),
+    CLIENT_ID: z.string().min(1),
+    AWS_REGION: z.string().min(1).default('ap-southeast-1'),
+  })
+);
+
+/**
+ * Secrets, given as values or `secretsmanager:`/`ssm:` references that are resolved on use
+ * so rotations apply without a redeploy
+ */
+export const secrets = defineConfig(
+  z.object({
+    // Only confidential app clients have a secret
+    CLIENT_SECRET: z.string().min(1).optional(),
+  })
+);
@@ -1,5 +1,7 @@
 export { loginHandler } from './login';
 export { registerHandler } from './register';
 export { confirmSignUpHandler } from './confirm-signup';
+export { refreshTokenHandler } from './refresh-token';
+export { logoutHandler } from './logout';
 
 export * from './shared/types';
@@ -2,13 +2,13 @@ import {
   ConfirmSignUpCommand,
   ConfirmSignUpCommandInput,
 } from '@aws-sdk/client-cognito-identity-provider';
-import { LambdaContext, ok, internalError } from '@shared/core';
-import { ConfirmSignUpInput } from './shared/types';
+import { RouteContext, ok, withErrorMapping } from '@shared/core';
+import { confirmSignUpSchema } from './shared/types';
 import { addSecretHashIfNeeded, CLIENT_ID, cognitoClient, logger } from './shared/utils';
 
-export const confirmSignUpHandler = async (ctx: LambdaContext) => {
-  try {
-    const { email, confirmationCode }: ConfirmSignUpInput = ctx.event.body;
+export const confirmSignUpHandler = withErrorMapping(
+  async (ctx: RouteContext<{ body: typeof confirmSignUpSchema }>) => {
+    const { email, confirmationCode } = ctx.event.body;
     logger.info('Processing sign-up confirmation', { email });
 
     const confirmParams: ConfirmSignUpCommandInput = {
@@ -17,20 +17,12 @@ export const confirmSignUpHandler = async (ctx: LambdaContext) => {
       ConfirmationCode: confirmationCode,
     };
 
-    addSecretHashIfNeeded(confirmParams, email);
+    await addSecretHashIfNeeded(confirmParams, email);
 
     const command = new ConfirmSignUpCommand(confirmParams);
-    await cognitoClient.send(command);
+    await cognitoClient.send(command, { abortSignal: ctx.signal });
 
     logger.info('Sign-up confirmation successful', { email });
     return ok({ message: 'Account confirmed successfully' });
-  } catch (error) {
-    logger.error('Sign-up confirmation error:', {
-      error: error instanceof Error ? error.message : String(error),
-    });
-    if (error instanceof Error) {
-      internalError(error.message);
-    }
-    internalError('Unknown error during sign-up confirmation');
   }
-};
+);
@@ -3,20 +3,21 @@ import {
   InitiateAuthCommand,
   InitiateAuthCommandInput,
 } from '@aws-sdk/client-cognito-identity-provider';
-import { LambdaContext, ok, internalError } from '@shared/core';
-import { AuthChallenge, AuthTokens, LoginInput } from './shared/types';
+import { RouteContext, ok, internalError, withErrorMapping } from '@shared/core';
+import { AuthChallenge, AuthTokens, loginSchema } from './shared/types';
 import { addSecretHashIfNeeded, CLIENT_ID, cognitoClient } from './shared/utils';
 
-export const loginHandler = async (ctx: LambdaContext) => {
-  try {
-    const { email, password }: LoginInput = ctx.event.body;
+// Report unknown users like wrong passwords so login cannot be used to enumerate accounts
+export const loginHandler = withErrorMapping(
+  async (ctx: RouteContext<{ body: typeof loginSchema }>) => {
+    const { email, password } = ctx.event.body;
 
     const authParameters: InitiateAuthCommandInput['AuthParameters'] = {
       USERNAME: email,
       PASSWORD: password,
     };
 
-    addSecretHashIfNeeded(authParameters, email);
+    await addSecretHashIfNeeded(authParameters, email);
 
     const command = new InitiateAuthCommand({
       AuthFlow: AuthFlowType.USER_PASSWORD_AUTH,
@@ -24,7 +25,7 @@ export const loginHandler = async (ctx: LambdaContext) => {
       AuthParameters: authParameters,
     });
 
-    const result = await cognitoClient.send(command);
+    const result = await cognitoClient.send(command, { abortSignal: ctx.signal });
 
     if (result.ChallengeName) {
       const challengeResponse: AuthChallenge = {
@@ -48,11 +49,7 @@ export const loginHandler = async (ctx: LambdaContext) => {
       return ok({ tokens });
     }
 
-    internalError('Authentication failed - no result');
-  } catch (error) {
-    if (error instanceof Error) {
-      internalError(error.message);
-    }
-    internalError('Unknown error during login');
-  }
-};
+    return internalError('Authentication failed - no result');
+  },
+  { UserNotFoundException: { statusCode: 401, message: 'Incorrect username or password.' } }
+);
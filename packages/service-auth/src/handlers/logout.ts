@@ -0,0 +1,20 @@
+import { RevokeTokenCommand } from '@aws-sdk/client-cognito-identity-provider';
+import { RouteContext, noContent, withErrorMapping } from '@shared/core';
+import { logoutSchema } from './shared/types';
+import { CLIENT_ID, cognitoClient, getClientSecret, logger } from './shared/utils';
+
+// Revoking the refresh token also invalidates the access and ID tokens issued from it
+export const logoutHandler = withErrorMapping(
+  async (ctx: RouteContext<{ body: typeof logoutSchema }>) => {
+    const command = new RevokeTokenCommand({
+      Token: ctx.event.body.refreshToken,
+      ClientId: CLIENT_ID,
+      ClientSecret: await getClientSecret(),
+    });
+
+    await cognitoClient.send(command, { abortSignal: ctx.signal });
+
+    logger.info('Refresh token revoked');
+    return noContent();
+  }
+);
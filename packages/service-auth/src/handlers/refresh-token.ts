@@ -0,0 +1,48 @@
+import {
+  AuthFlowType,
+  InitiateAuthCommand,
+  InitiateAuthCommandInput,
+} from '@aws-sdk/client-cognito-identity-provider';
+import { BadRequestError, RouteContext, ok, internalError, withErrorMapping } from '@shared/core';
+import { AuthTokens, refreshTokenSchema } from './shared/types';
+import { calculateSecretHash, CLIENT_ID, cognitoClient, getClientSecret } from './shared/utils';
+
+// Cognito keeps the refresh token unless rotation is enabled, so the submitted one is returned
+export const refreshTokenHandler = withErrorMapping(
+  async (ctx: RouteContext<{ body: typeof refreshTokenSchema }>) => {
+    const { refreshToken, username } = ctx.event.body;
+
+    const authParameters: InitiateAuthCommandInput['AuthParameters'] = {
+      REFRESH_TOKEN: refreshToken,
+    };
+
+    // Confidential clients sign refreshes with the user's Cognito username (the `sub`)
+    if (await getClientSecret()) {
+      if (!username) {
+        throw new BadRequestError('username is required to refresh tokens for this client');
+      }
+      authParameters.SECRET_HASH = await calculateSecretHash(username);
+    }
+
+    const command = new InitiateAuthCommand({
+      AuthFlow: AuthFlowType.REFRESH_TOKEN_AUTH,
+      ClientId: CLIENT_ID,
+      AuthParameters: authParameters,
+    });
+
+    const result = await cognitoClient.send(command, { abortSignal: ctx.signal });
+
+    if (result.AuthenticationResult) {
+      const tokens: AuthTokens = {
+        accessToken: result.AuthenticationResult.AccessToken!,
+        idToken: result.AuthenticationResult.IdToken!,
+        refreshToken: result.AuthenticationResult.RefreshToken || refreshToken,
+        expiresIn: result.AuthenticationResult.ExpiresIn!,
+      };
+
+      return ok({ tokens });
+    }
+
+    return internalError('Token refresh failed - no result');
+  }
+);
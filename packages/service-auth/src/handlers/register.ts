@@ -1,11 +1,11 @@
 import { SignUpCommand, SignUpCommandInput } from '@aws-sdk/client-cognito-identity-provider';
-import { LambdaContext, created, internalError } from '@shared/core';
-import { RegisterInput } from './shared/types';
+import { RouteContext, created, withErrorMapping } from '@shared/core';
+import { registerSchema } from './shared/types';
 import { addSecretHashIfNeeded, CLIENT_ID, cognitoClient } from './shared/utils';
 
-export const registerHandler = async (ctx: LambdaContext) => {
-  try {
-    const { email, password, givenName, familyName }: RegisterInput = ctx.event.body;
+export const registerHandler = withErrorMapping(
+  async (ctx: RouteContext<{ body: typeof registerSchema }>) => {
+    const { email, password, givenName, familyName } = ctx.event.body;
 
     const userAttributes = [{ Name: 'email', Value: email }];
     if (givenName) userAttributes.push({ Name: 'given_name', Value: givenName });
@@ -18,10 +18,10 @@ export const registerHandler = async (ctx: LambdaContext) => {
       UserAttributes: userAttributes,
     };
 
-    addSecretHashIfNeeded(signUpParams, email);
+    await addSecretHashIfNeeded(signUpParams, email);
 
     const command = new SignUpCommand(signUpParams);
-    const result = await cognitoClient.send(command);
+    const result = await cognitoClient.send(command, { abortSignal: ctx.signal });
 
     const registerResponse = {
       userSub: result.UserSub!,
@@ -30,10 +30,5 @@ export const registerHandler = async (ctx: LambdaContext) => {
     };
 
     return created(registerResponse);
-  } catch (error) {
-    if (error instanceof Error) {
-      internalError(error.message);
-    }
-    internalError('Unknown error during registration');
   }
-};
+);
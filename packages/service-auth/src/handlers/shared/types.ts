@@ -31,6 +31,18 @@ export const confirmSignUpSchema = z.object({
   confirmationCode: z.string().min(6).max(6),
 });
 
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1),
+  // Cognito username (the `sub`); required when the app client has a secret
+  username: z.string().min(1).optional(),
+});
+
+export const logoutSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
 export type LoginInput = z.infer<typeof loginSchema>;
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type ConfirmSignUpInput = z.infer<typeof confirmSignUpSchema>;
+export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
+export type LogoutInput = z.infer<typeof logoutSchema>;
@@ -1,25 +1,32 @@
 import { CognitoIdentityProviderClient } from '@aws-sdk/client-cognito-identity-provider';
 import { createLogger } from '@shared/core';
 import { createHmac } from 'crypto';
+import { config, secrets } from '../../config';
 
-export const CLIENT_ID = process.env.CLIENT_ID!;
-export const CLIENT_SECRET = process.env.CLIENT_SECRET;
-export const REGION = process.env.AWS_REGION || process.env.AWS_DEFAULT_REGION || 'ap-southeast-1';
+export const { CLIENT_ID, AWS_REGION: REGION } = config.get();
 
 export const cognitoClient = new CognitoIdentityProviderClient({ region: REGION });
 export const logger = createLogger('auth-service');
 
-export function calculateSecretHash(email: string): string {
-  if (!CLIENT_SECRET) return '';
+// Undefined for public app clients
+export async function getClientSecret(): Promise<string | undefined> {
+  const { CLIENT_SECRET } = await secrets.load();
+  return CLIENT_SECRET;
+}
+
+// `username` is the sign-in email, or the Cognito username (`sub`) for token refreshes
+export async function calculateSecretHash(username: string): Promise<string> {
+  const clientSecret = await getClientSecret();
+  if (!clientSecret) return '';
 
-  const message = email + CLIENT_ID;
-  const hmac = createHmac('SHA256', CLIENT_SECRET);
+  const message = username + CLIENT_ID;
+  const hmac = createHmac('SHA256', clientSecret);
   hmac.update(message);
   return hmac.digest('base64');
 }
 
-export function addSecretHashIfNeeded(params: any, email: string): void {
-  const secretHash = calculateSecretHash(email);
+export async function addSecretHashIfNeeded(params: any, email: string): Promise<void> {
+  const secretHash = await calculateSecretHash(email);
   if (secretHash) {
     params.SecretHash = secretHash;
   }
@@ -1,27 +1,69 @@
-import { createRouter, route } from '@shared/core';
-import { confirmSignUpHandler, loginHandler, registerHandler } from './handlers/auth';
-import { confirmSignUpSchema, loginSchema, registerSchema } from './handlers/shared/types';
+import { createDynamoRateLimitStore, createRouter, rateLimit, route } from '@shared/core';
+import {
+  confirmSignUpHandler,
+  loginHandler,
+  logoutHandler,
+  refreshTokenHandler,
+  registerHandler,
+} from './handlers/auth';
+import {
+  confirmSignUpSchema,
+  loginSchema,
+  logoutSchema,
+  refreshTokenSchema,
+  registerSchema,
+} from './handlers/shared/types';
+
+// Auth routes are anonymous, so limits apply per source IP
+const rateLimitStore = createDynamoRateLimitStore();
 
 /**
- * Create auth service router using new middleware
+ * Auth service routes (public - called before a JWT exists)
  */
-export const handler = createRouter([
+export const routes = [
   route({
     method: 'POST',
     path: '/auth/login',
     handler: loginHandler,
     schema: { body: loginSchema },
+    middlewares: [rateLimit({ store: rateLimitStore, limit: 10, windowSeconds: 60 })],
+    docs: { summary: 'Log in with email and password', tags: ['auth'], public: true },
   }),
   route({
     method: 'POST',
     path: '/auth/register',
     handler: registerHandler,
     schema: { body: registerSchema },
+    middlewares: [rateLimit({ store: rateLimitStore, limit: 5, windowSeconds: 3600 })],
+    docs: { summary: 'Register a new user', tags: ['auth'], public: true },
   }),
   route({
     method: 'POST',
     path: '/auth/confirm-signup',
     handler: confirmSignUpHandler,
     schema: { body: confirmSignUpSchema },
+    middlewares: [rateLimit({ store: rateLimitStore, limit: 10, windowSeconds: 300 })],
+    docs: { summary: 'Confirm sign-up with a verification code', tags: ['auth'], public: true },
+  }),
+  route({
+    method: 'POST',
+    path: '/auth/refresh',
+    handler: refreshTokenHandler,
+    schema: { body: refreshTokenSchema },
+    middlewares: [rateLimit({ store: rateLimitStore, limit: 30, windowSeconds: 60 })],
+    docs: { summary: 'Exchange a refresh token for new tokens', tags: ['auth'], public: true },
+  }),
+  route({
+    method: 'POST',
+    path: '/auth/logout',
+    handler: logoutHandler,
+    schema: { body: logoutSchema },
+    middlewares: [rateLimit({ store: rateLimitStore, limit: 30, windowSeconds: 60 })],
+    docs: { summary: 'Revoke a refresh token', tags: ['auth'], public: true },
   }),
-]);
+];
+
+/**
+ * Create auth service router using new middleware
+ */
+export const handler = createRouter(routes);
@@ -8,9 +8,9 @@ import {
   ListUsersCommand,
 } from '@aws-sdk/client-cognito-identity-provider';
 import { createLogger } from '@shared/core';
+import { config } from '../config';
 
-const REGION = process.env.AWS_REGION || 'ap-southeast-1';
-const USER_POOL_ID = process.env.USER_POOL_ID!;
+const { AWS_REGION: REGION, USER_POOL_ID } = config.get();
 
 const cognitoClient = new CognitoIdentityProviderClient({ region: REGION });
 const logger = createLogger('cognito-service');
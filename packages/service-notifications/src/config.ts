@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { defineConfig } from '@shared/core';
+
+/**
+ * Notification service environment, validated at cold start
+ */
+export const config = defineConfig(
+  z.object({
+    ENABLE_MOCK_NOTIFICATIONS: z.stringbool().default(false),
+    FROM_EMAIL_ADDRESS: z.email().default('noreply@example.com'),
+    REPLY_TO_ADDRESSES: z
+      .string()
+      .optional()
+      .transform(value => value?.split(',').filter(Boolean)),
+    SMS_SENDER_ID: z.string().optional(),
+    DEFAULT_USER_EMAIL: z.email().default('user@example.com'),
+    DEFAULT_USER_PHONE: z.string().default(''),
+    NODE_ENV: z.string().optional(),
+    AWS_REGION: z.string().min(1).default('ap-southeast-1'),
+  })
+);
+
+/**
+ * Notifications are only logged when mocking is enabled or in local development
+ */
+export const isMockMode = (env = config.get()): boolean =>
+  env.ENABLE_MOCK_NOTIFICATIONS || env.NODE_ENV === 'development';
@@ -1,37 +1,12 @@
-import { createLogger } from '@shared/core';
-import { Context, SQSEvent, SQSRecord } from 'aws-lambda';
-import { z } from 'zod';
+import { BadRequestError, createEventDispatcher, createLogger } from '@shared/core';
+import { Context, SQSBatchResponse, SQSEvent } from 'aws-lambda';
+import { config, isMockMode } from '../config';
 import { NotificationService } from '../services/notification-service';
-import { NotificationRequest } from '../types/notification';
-
-/**
- * SQS message wrapper schema for EventBridge events
- */
-const SQSEventBridgeMessageSchema = z.object({
-  version: z.string(),
-  id: z.string(),
-  'detail-type': z.string(),
-  source: z.string(),
-  account: z.string(),
-  time: z.string(),
-  region: z.string(),
-  detail: z.record(z.string(), z.unknown()), // The actual domain event
-});
-
-/**
- * Common event data structure
- */
-interface BaseEventData {
-  userId: string;
-  orderId?: string;
-}
-
-interface OrderEventData extends BaseEventData {
-  orderId: string;
-  total: number;
-  items?: any[];
-  itemCount?: number;
-}
+import {
+  NotificationRequest,
+  OrderCreatedDetail,
+  OrderCreatedDetailSchema,
+} from '../types/notification';
 
 /**
  * Event-driven notification handler
@@ -40,147 +15,62 @@ interface OrderEventData extends BaseEventData {
 export class EventHandler {
   private notificationService: NotificationService;
   private logger = createLogger('notification-event-handler');
+  private dispatch = createEventDispatcher([
+    {
+      source: 'eventbridge',
+      type: 'ORDER_CREATED',
+      schema: OrderCreatedDetailSchema,
+      handler: ({ event }) => this.handleOrderCreated(event.payload),
+    },
+    {
+      // Anything that is not an EventBridge envelope is malformed: fail it so SQS retries it
+      // and eventually moves it to the dead-letter queue
+      source: 'sqs',
+      handler: () => {
+        throw new BadRequestError('Message is not an EventBridge event');
+      },
+    },
+  ]);
 
   constructor() {
     // Initialize notification service with configuration from environment
-    const mockMode = process.env.ENABLE_MOCK_NOTIFICATIONS === 'true';
+    const env = config.get();
+    const mockMode = isMockMode(env);
 
     this.notificationService = new NotificationService({
       email: {
-        fromAddress: process.env.FROM_EMAIL_ADDRESS || 'noreply@example.com',
-        replyToAddresses: process.env.REPLY_TO_ADDRESSES?.split(','),
+        region: env.AWS_REGION,
+        fromAddress: env.FROM_EMAIL_ADDRESS,
+        replyToAddresses: env.REPLY_TO_ADDRESSES,
         mockMode,
       },
       sms: {
-        senderId: process.env.SMS_SENDER_ID,
+        region: env.AWS_REGION,
+        senderId: env.SMS_SENDER_ID,
         mockMode,
       },
     });
 
     this.logger.info('EventHandler initialized', {
       mockMode,
-      environment: process.env.NODE_ENV,
-    });
-  }
-
-  /**
-   * Main SQS event handler
-   */
-  async handleSQSEvent(event: SQSEvent, context: Context): Promise<void> {
-    this.logger.info('Processing SQS event batch', {
-      recordCount: event.Records.length,
-      requestId: context.awsRequestId,
-    });
-
-    const results = await Promise.allSettled(
-      event.Records.map(record => this.processSQSRecord(record))
-    );
-
-    const successCount = results.filter(r => r.status === 'fulfilled').length;
-    const failureCount = results.length - successCount;
-
-    this.logger.info('SQS event batch processed', {
-      total: event.Records.length,
-      successCount,
-      failureCount,
-      requestId: context.awsRequestId,
-    });
-
-    // If any records failed, log details (but don't throw - let SQS handle retries)
-    results.forEach((result, index) => {
-      if (result.status === 'rejected') {
-        const record = event.Records[index];
-        this.logger.error('Failed to process SQS record', {
-          messageId: record.messageId,
-          error: result.reason,
-          body: record.body,
-        });
-      }
+      environment: env.NODE_ENV,
     });
   }
 
   /**
-   * Process individual SQS record
+   * Main SQS event handler.
+   * Domain events arrive as EventBridge envelopes and are routed by detail-type; invalid
+   * details and malformed messages fail, and failed messages are reported back as
+   * `batchItemFailures` so only they are retried. Other event types are ignored.
    */
-  private async processSQSRecord(record: SQSRecord): Promise<void> {
-    this.logger.info('Processing SQS record', {
-      messageId: record.messageId,
-      eventSource: record.eventSource,
-    });
-
-    try {
-      // Parse EventBridge message from SQS
-      const eventBridgeMessage = JSON.parse(record.body);
-      const validatedMessage = SQSEventBridgeMessageSchema.parse(eventBridgeMessage);
-
-      // Extract domain event from EventBridge detail
-      const domainEvent = validatedMessage.detail;
-
-      // Use detail-type from EventBridge wrapper as eventType
-      const eventType = validatedMessage['detail-type'];
-
-      this.logger.info('Processing domain event', {
-        eventType: eventType,
-        eventId: (domainEvent as any).eventId || 'unknown',
-        source: validatedMessage.source,
-        messageId: record.messageId,
-        eventData: JSON.stringify(domainEvent),
-      });
-
-      // Route event to appropriate handler using EventBridge detail-type
-      await this.routeDomainEventByType(eventType, domainEvent);
-
-      this.logger.info('Domain event processed successfully', {
-        eventType: eventType,
-        eventId: (domainEvent as any).eventId || 'unknown',
-        messageId: record.messageId,
-      });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-
-      this.logger.error('Failed to process SQS record', {
-        messageId: record.messageId,
-        error: errorMessage,
-        body: record.body,
-      });
-
-      // Re-throw to trigger SQS retry mechanism
-      throw error;
-    }
-  }
-
-  /**
-   * Normalize event data format (handles both direct events and wrapped events)
-   */
-  private normalizeEventData<T>(eventData: T | { data: T }): T {
-    return 'data' in (eventData as any) ? (eventData as { data: T }).data : (eventData as T);
-  }
-
-  /**
-   * Route domain event to appropriate notification handler
-   */
-  private async routeDomainEventByType(eventType: string, eventData: any): Promise<void> {
-    switch (eventType) {
-      case 'ORDER_CREATED':
-        await this.handleOrderCreated(eventData);
-        break;
-
-      default:
-        this.logger.warn('Unhandled event type', {
-          eventType: eventType,
-          eventData: JSON.stringify(eventData),
-        });
-    }
+  async handleSQSEvent(event: SQSEvent, context: Context): Promise<SQSBatchResponse> {
+    return (await this.dispatch(event, context)) as SQSBatchResponse;
   }
 
   /**
    * Handle ORDER_CREATED event
    */
-  private async handleOrderCreated(
-    eventData: OrderEventData | { data: OrderEventData }
-  ): Promise<void> {
-    const data = this.normalizeEventData(eventData);
-
+  private async handleOrderCreated(data: OrderCreatedDetail): Promise<void> {
     this.logger.info('Handling ORDER_CREATED event', {
       orderId: data.orderId,
       userId: data.userId,
@@ -233,7 +123,7 @@ export class EventHandler {
   private async getUserEmail(_userId: string): Promise<string> {
     // In a real implementation, this would query the user service or database
     // For now, return a placeholder
-    return process.env.DEFAULT_USER_EMAIL || 'user@example.com';
+    return config.get().DEFAULT_USER_EMAIL;
   }
 
   /**
@@ -242,7 +132,7 @@ export class EventHandler {
   private async getUserPhone(_userId: string): Promise<string> {
     // In a real implementation, this would query the user service or database
     // For now, return a placeholder if SMS is enabled
-    return process.env.DEFAULT_USER_PHONE || '';
+    return config.get().DEFAULT_USER_PHONE;
   }
 }
 
@@ -255,6 +145,6 @@ const eventHandler = new EventHandler();
 export const handleNotificationEvents = async (
   event: SQSEvent,
   context: Context
-): Promise<void> => {
+): Promise<SQSBatchResponse> => {
   return eventHandler.handleSQSEvent(event, context);
 };
@@ -1,5 +1,6 @@
 import { SESClient, SendEmailCommand, SendEmailCommandInput } from '@aws-sdk/client-ses';
 import { createLogger } from '@shared/core';
+import { config as serviceConfig, isMockMode } from '../config';
 import { EmailNotification, NotificationResult, EMAIL_TEMPLATES } from '../types/notification';
 
 export interface EmailServiceConfig {
@@ -19,12 +20,10 @@ export class EmailService {
   private config: EmailServiceConfig;
 
   constructor(config: EmailServiceConfig) {
+    const env = serviceConfig.get();
     this.config = {
-      region: config.region || process.env.AWS_REGION || 'ap-southeast-1',
-      mockMode:
-        config.mockMode ??
-        (process.env.NODE_ENV === 'development' ||
-          process.env.ENABLE_MOCK_NOTIFICATIONS === 'true'),
+      region: config.region || env.AWS_REGION,
+      mockMode: config.mockMode ?? isMockMode(env),
       ...config,
     };
 
@@ -1,5 +1,6 @@
 import { SNSClient, PublishCommand, PublishCommandInput } from '@aws-sdk/client-sns';
 import { createLogger } from '@shared/core';
+import { config as serviceConfig, isMockMode } from '../config';
 import { SMSNotification, NotificationResult, SMS_TEMPLATES } from '../types/notification';
 
 export interface SMSServiceConfig {
@@ -18,13 +19,11 @@ export class SMSService {
   private config: SMSServiceConfig;
 
   constructor(config: SMSServiceConfig = {}) {
+    const env = serviceConfig.get();
     this.config = {
-      region: config.region || process.env.AWS_REGION || 'ap-southeast-1',
-      senderId: config.senderId || process.env.SMS_SENDER_ID || 'YourApp',
-      mockMode:
-        config.mockMode ??
-        (process.env.NODE_ENV === 'development' ||
-          process.env.ENABLE_MOCK_NOTIFICATIONS === 'true'),
+      region: config.region || env.AWS_REGION,
+      senderId: config.senderId || env.SMS_SENDER_ID || 'YourApp',
+      mockMode: config.mockMode ?? isMockMode(env),
     };
 
     this.snsClient = new SNSClient({
@@ -111,3 +111,24 @@ export const SMS_TEMPLATES = {
   PAYMENT_PROCESSED: 'Payment of ${amount} for order #{orderId} has been processed successfully.',
   USER_WELCOME: 'Welcome to our service! Your account has been created successfully.',
 } as const;
+
+/**
+ * ORDER_CREATED event detail as published by the orders service
+ */
+const OrderCreatedDataSchema = z.looseObject({
+  orderId: z.string().min(1),
+  userId: z.string().min(1),
+  total: z.number(),
+  itemCount: z.number().int().optional(),
+  items: z.array(z.record(z.string(), z.unknown())).optional(),
+});
+
+/**
+ * ORDER_CREATED detail, also accepted wrapped as `{ data: ... }` and unwrapped on parse
+ */
+export const OrderCreatedDetailSchema = z.union([
+  OrderCreatedDataSchema,
+  z.object({ data: OrderCreatedDataSchema }).transform(({ data }) => data),
+]);
+
+export type OrderCreatedDetail = z.infer<typeof OrderCreatedDetailSchema>;
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { defineConfig } from '@shared/core';
+
+/**
+ * Order service environment, validated at cold start
+ */
+export const config = defineConfig(
+  z.object({
+    TABLE_NAME: z.string().min(1),
+    EVENT_BUS_NAME: z.string().min(1).default('default'),
+    AWS_REGION: z.string().min(1).default('ap-southeast-1'),
+  })
+);
+
+/**
+ * Secret values, normally `secretsmanager:` references that only `load()` resolves
+ */
+export const secrets = defineConfig(
+  z.object({
+    // HMAC key for signing pagination cursors
+    CURSOR_SECRET: z.string().min(1),
+  })
+);
@@ -6,6 +6,7 @@ import {
   PutEventsRequestEntry,
 } from '@shared/core';
 import { OrderCreatedEvent, OrderEvent } from './event-schemas';
+import { config as serviceConfig } from '../config';
 
 export interface EventPublishResult {
   success: boolean;
@@ -31,8 +32,8 @@ export class OrderEventPublisher {
 
   constructor(config: EventPublisherConfig = {}) {
     this.config = {
-      eventBusName: config.eventBusName || process.env.EVENT_BUS_NAME || 'default',
-      region: config.region || process.env.AWS_REGION || 'ap-southeast-1',
+      eventBusName: config.eventBusName || serviceConfig.get().EVENT_BUS_NAME,
+      region: config.region || serviceConfig.get().AWS_REGION,
       maxRetries: config.maxRetries || 3,
       retryDelayMs: config.retryDelayMs || 1000,
     };
@@ -1,6 +1,7 @@
 import { createLogger, AWSClients, EventBridgeClient, PutEventsCommand } from '@shared/core';
 import { z } from 'zod';
 import { Order, OrderStatus } from '../schemas';
+import { config } from '../config';
 
 const logger = createLogger('order-events');
 
@@ -245,7 +246,5 @@ export class OrderEventPublisher {
  * Factory function to create OrderEventPublisher instance with singleton client
  */
 export const createOrderEventPublisher = (): OrderEventPublisher => {
-  const eventBusName = process.env.EVENT_BUS_NAME || 'default';
-
-  return new OrderEventPublisher(AWSClients.eventBridge, eventBusName);
+  return new OrderEventPublisher(AWSClients.eventBridge, config.get().EVENT_BUS_NAME);
 };
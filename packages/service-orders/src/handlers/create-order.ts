@@ -1,6 +1,6 @@
-import { LambdaContext, created, internalError, requireUserId } from '@shared/core';
+import { RouteContext, created, requireUserId, withErrorMapping } from '@shared/core';
 import { createOrderCreatedEvent, publishOrderCreatedEvent } from '../events';
-import { CreateOrderRequest } from '../schemas';
+import { CreateOrderRequestSchema } from '../schemas';
 import { createOrderService } from '../services';
 
 // Initialize service at module level for reuse across warm invocations
@@ -9,18 +9,18 @@ const orderService = createOrderService();
 /**
  * Create Order Handler - Creates new order with event publishing
  */
-export const createOrderHandler = async (ctx: LambdaContext) => {
-  // Extract user from JWT claims (HTTP API v2.0 JWT authorizer)
-  const userId = requireUserId(ctx.event);
+export const createOrderHandler = withErrorMapping(
+  async (ctx: RouteContext<{ body: typeof CreateOrderRequestSchema }>) => {
+    // Extract user from JWT claims (HTTP API v2.0 JWT authorizer)
+    const userId = requireUserId(ctx.event);
 
-  // Body is already parsed and validated by middleware
-  const orderRequest: CreateOrderRequest = ctx.event.body;
+    // Body is already parsed and validated by middleware
+    const orderRequest = ctx.event.body;
 
-  // Create order
-  const order = await orderService.createOrder(userId, orderRequest);
+    // Create order
+    const order = await orderService.createOrder(userId, orderRequest, ctx.signal);
 
-  // Create and publish ORDER_CREATED event (async, don't block response)
-  try {
+    // Create and publish ORDER_CREATED event (async, don't block response)
     const orderCreatedEvent = createOrderCreatedEvent(
       order.orderId,
       order.userId,
@@ -60,7 +60,5 @@ export const createOrderHandler = async (ctx: LambdaContext) => {
       success: true,
       data: order,
     });
-  } catch (error) {
-    internalError(error instanceof Error ? error.message : 'Unknown error during order creation');
   }
-};
+);
@@ -1,39 +1,51 @@
-import { LambdaContext, ok, forbidden, notFound, internalError, requireUserId } from '@shared/core';
+import {
+  ParsedEvent,
+  RouteContext,
+  ok,
+  notFound,
+  requireOwnership,
+  withErrorMapping,
+} from '@shared/core';
+import { Order, OrderPathParamsSchema } from '../schemas';
 import { createOrderService } from '../services';
 
 // Initialize service at module level for reuse across warm invocations
 const orderService = createOrderService();
 
+type GetOrderSchema = { path: typeof OrderPathParamsSchema };
+
+// Orders loaded per request event, so the ownership guard and the handler share one GetItem
+const loadedOrders = new WeakMap<object, Promise<Order | null>>();
+
+const loadOrder = (event: ParsedEvent, signal: AbortSignal): Promise<Order | null> => {
+  let order = loadedOrders.get(event);
+  if (!order) {
+    order = orderService.getOrderById(event.pathParameters.orderId, signal);
+    loadedOrders.set(event, order);
+  }
+  return order;
+};
+
+/**
+ * Only the user who placed an order may read it (missing orders fall through to 404)
+ */
+export const orderOwnership = requireOwnership(
+  async ({ event, signal }) => (await loadOrder(event, signal))?.userId
+);
+
 /**
  * Get Order Handler - Retrieves a specific order by ID
  */
-export const getOrderHandler = async (ctx: LambdaContext) => {
-  try {
-    // Extract user from JWT claims (HTTP API v2.0 JWT authorizer)
-    const userId = requireUserId(ctx.event);
-
-    // Path parameters are already parsed and validated by middleware
-    const { orderId } = ctx.event.pathParameters;
-
-    // Get order
-    const order = await orderService.getOrderById(orderId);
-
-    if (!order) {
-      notFound('Order not found');
-      return; // This ensures TypeScript knows order is not null below
-    }
-
-    // Validate ownership (security check)
-    if (order.userId !== userId) {
-      forbidden('Access denied');
-      return; // This ensures the function doesn't continue
-    }
-
-    return ok({
-      success: true,
-      data: order,
-    });
-  } catch (error) {
-    internalError(error instanceof Error ? error.message : 'Unknown error during order retrieval');
+export const getOrderHandler = withErrorMapping(async (ctx: RouteContext<GetOrderSchema>) => {
+  // Reuses the order read by the route's ownership guard
+  const order = await loadOrder(ctx.event, ctx.signal);
+
+  if (!order) {
+    return notFound('Order not found');
   }
-};
+
+  return ok({
+    success: true,
+    data: order,
+  });
+});
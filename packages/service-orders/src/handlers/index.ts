@@ -1,2 +1,3 @@
 export * from './create-order';
 export * from './get-order';
+export * from './list-orders';
@@ -0,0 +1,43 @@
+import {
+  RouteContext,
+  createCursorCodec,
+  ok,
+  requireUserId,
+  toPaginatedResponse,
+  withErrorMapping,
+} from '@shared/core';
+import { ListOrdersQuerySchema } from '../schemas';
+import { secrets } from '../config';
+import { createOrderService } from '../services';
+
+// Initialize service at module level for reuse across warm invocations
+const orderService = createOrderService();
+
+// The signing key is loaded through the secrets cache, so a rotated key applies after its TTL
+const getCursorCodec = async () =>
+  createCursorCodec({ secret: (await secrets.load()).CURSOR_SECRET });
+
+/**
+ * List Orders Handler - Lists the caller's orders, newest first, with cursor pagination
+ */
+export const listOrdersHandler = withErrorMapping(
+  async (ctx: RouteContext<{ query: typeof ListOrdersQuerySchema }>) => {
+    // Extract user from JWT claims (HTTP API v2.0 JWT authorizer)
+    const userId = requireUserId(ctx.event);
+
+    // Query parameters are already parsed and validated by middleware
+    const { limit, cursor } = ctx.event.queryStringParameters;
+
+    const cursorCodec = await getCursorCodec();
+
+    // Cursors are bound to the user so they cannot page through another user's orders
+    const startKey = cursor ? cursorCodec.decode(cursor, userId) : undefined;
+    const { orders, lastEvaluatedKey } = await orderService.listOrdersByUser(
+      userId,
+      { limit, startKey },
+      ctx.signal
+    );
+
+    return ok(toPaginatedResponse(orders, { limit, lastEvaluatedKey }, cursorCodec, userId));
+  }
+);
@@ -1,21 +1,59 @@
-import { createRouter, route } from '@shared/core';
-import { createOrderHandler, getOrderHandler } from './handlers';
-import { CreateOrderRequestSchema, OrderPathParamsSchema } from './schemas';
+import {
+  createDynamoIdempotencyStore,
+  createDynamoRateLimitStore,
+  createRouter,
+  idempotency,
+  rateLimit,
+  route,
+} from '@shared/core';
+import { createOrderHandler, getOrderHandler, listOrdersHandler, orderOwnership } from './handlers';
+import {
+  CreateOrderRequestSchema,
+  ListOrdersQuerySchema,
+  ListOrdersResponseSchema,
+  OrderPathParamsSchema,
+  OrderResponseSchema,
+} from './schemas';
+
+const rateLimitStore = createDynamoRateLimitStore();
 
 /**
- * Create orders service router using new middleware
+ * Orders service routes (protected by the JWT authorizer)
  */
-export const handler = createRouter([
+export const routes = [
   route({
     method: 'POST',
     path: '/orders',
     handler: createOrderHandler,
-    schema: { body: CreateOrderRequestSchema },
+    schema: { body: CreateOrderRequestSchema, response: { 201: OrderResponseSchema } },
+    // Retries with the same Idempotency-Key replay the original order instead of creating another
+    middlewares: [
+      rateLimit({ store: rateLimitStore, limit: 30, windowSeconds: 60 }),
+      idempotency({ store: createDynamoIdempotencyStore() }),
+    ],
+    docs: { summary: 'Create an order', tags: ['orders'] },
+  }),
+  route({
+    method: 'GET',
+    path: '/orders',
+    handler: listOrdersHandler,
+    schema: { query: ListOrdersQuerySchema, response: { 200: ListOrdersResponseSchema } },
+    middlewares: [rateLimit({ store: rateLimitStore, limit: 120, windowSeconds: 60 })],
+    docs: { summary: "List the caller's orders", tags: ['orders'] },
   }),
   route({
     method: 'GET',
     path: '/orders/{orderId}',
     handler: getOrderHandler,
-    schema: { path: OrderPathParamsSchema },
+    schema: { path: OrderPathParamsSchema, response: { 200: OrderResponseSchema } },
+    authorize: [orderOwnership],
+    docs: { summary: 'Get an order by ID', tags: ['orders'] },
+    // Order status changes, so clients revalidate with the ETag on every use
+    cacheControl: 'private, no-cache',
   }),
-]);
+];
+
+/**
+ * Create orders service router using new middleware
+ */
+export const handler = createRouter(routes);
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { paginatedResponseSchema, PaginationQuerySchema } from '@shared/core';
 
 /**
  * Order Item Schema - Individual items in an order
@@ -74,6 +75,24 @@ export const OrderSchema = z.object({
   updatedAt: z.string().datetime(),
 });
 
+/**
+ * Order Response Schema - API envelope; strips storage keys (PK, SK, GSI1PK, GSI1SK)
+ */
+export const OrderResponseSchema = z.object({
+  success: z.literal(true),
+  data: OrderSchema,
+});
+
+/**
+ * List Orders Query Schema (`?limit=&cursor=`)
+ */
+export const ListOrdersQuerySchema = PaginationQuerySchema;
+
+/**
+ * List Orders Response Schema - paginated envelope of orders
+ */
+export const ListOrdersResponseSchema = paginatedResponseSchema(OrderSchema);
+
 /**
  * Order Path Parameters Schema
  */
@@ -89,3 +108,5 @@ export type OrderStatus = z.infer<typeof OrderStatusSchema>;
 export type CreateOrderRequest = z.infer<typeof CreateOrderRequestSchema>;
 export type Order = z.infer<typeof OrderSchema>;
 export type OrderPathParams = z.infer<typeof OrderPathParamsSchema>;
+export type OrderResponse = z.infer<typeof OrderResponseSchema>;
+export type ListOrdersResponse = z.infer<typeof ListOrdersResponseSchema>;
@@ -4,11 +4,15 @@ import {
   DynamoDBClient,
   GetItemCommand,
   PutItemCommand,
+  QueryCommand,
+  PageKey,
   marshall,
   unmarshall,
+  UnprocessableEntityError,
 } from '@shared/core';
 import { v4 as uuidv4 } from 'uuid';
 import { CreateOrderRequest, Order, OrderStatus } from '../schemas';
+import { config } from '../config';
 
 const logger = createLogger('order-service');
 
@@ -26,17 +30,26 @@ export class OrderService {
    * - Single write operation to ORDER#{orderId}#DETAILS
    * - GSI1 projection for user access: USER#{userId}#ORDER#{timestamp}#{orderId}
    */
-  async createOrder(userId: string, orderData: CreateOrderRequest): Promise<Order> {
+  async createOrder(
+    userId: string,
+    orderData: CreateOrderRequest,
+    signal?: AbortSignal
+  ): Promise<Order> {
     const orderId = uuidv4();
     const timestamp = new Date().toISOString();
 
     // Calculate totals
     const itemCount = orderData.items.reduce((sum, item) => sum + item.quantity, 0);
-    const total = orderData.items.reduce((sum, item) => sum + item.subtotal, 0);
+    // Round to cents to avoid floating point drift when summing subtotals
+    const total =
+      Math.round(orderData.items.reduce((sum, item) => sum + item.subtotal, 0) * 100) / 100;
 
     // Validate payment amount matches calculated total
     if (Math.abs(orderData.paymentInfo.amount - total) > 0.01) {
-      throw new Error('Payment amount does not match order total');
+      throw new UnprocessableEntityError('Payment amount does not match order total', {
+        expected: total,
+        received: orderData.paymentInfo.amount,
+      });
     }
 
     const order: Order = {
@@ -57,17 +70,21 @@ export class OrderService {
       // Single write operation with GSI projection
       const putItemCommand = new PutItemCommand({
         TableName: this.tableName,
-        Item: marshall({
-          PK: `ORDER#${orderId}`,
-          SK: 'DETAILS',
-          GSI1PK: `USER#${userId}`,
-          GSI1SK: `ORDER#${timestamp}#${orderId}`,
-          ...order,
-        }),
+        Item: marshall(
+          {
+            PK: `ORDER#${orderId}`,
+            SK: 'DETAILS',
+            GSI1PK: `USER#${userId}`,
+            GSI1SK: `ORDER#${timestamp}#${orderId}`,
+            ...order,
+          },
+          // Optional fields such as `notes` are left out rather than rejected
+          { removeUndefinedValues: true }
+        ),
         ConditionExpression: 'attribute_not_exists(PK)',
       });
 
-      await this.dynamoClient.send(putItemCommand);
+      await this.dynamoClient.send(putItemCommand, { abortSignal: signal });
 
       logger.info('Order created successfully', {
         orderId,
@@ -79,14 +96,14 @@ export class OrderService {
       return order;
     } catch (error) {
       logger.error('Failed to create order', { error, orderId, userId });
-      throw new Error('Failed to create order');
+      throw error;
     }
   }
 
   /**
    * Get order details by order ID (direct access)
    */
-  async getOrderById(orderId: string): Promise<Order | null> {
+  async getOrderById(orderId: string, signal?: AbortSignal): Promise<Order | null> {
     try {
       const getItemCommand = new GetItemCommand({
         TableName: this.tableName,
@@ -96,7 +113,7 @@ export class OrderService {
         }),
       });
 
-      const response = await this.dynamoClient.send(getItemCommand);
+      const response = await this.dynamoClient.send(getItemCommand, { abortSignal: signal });
 
       if (!response.Item) {
         logger.warn('Order not found', { orderId });
@@ -109,7 +126,43 @@ export class OrderService {
       return orderData as Order;
     } catch (error) {
       logger.error('Failed to get order', { error, orderId });
-      throw new Error('Failed to retrieve order');
+      throw error;
+    }
+  }
+
+  /**
+   * List a user's orders, newest first, via GSI1 (USER#{userId} / ORDER#{timestamp}#{orderId})
+   */
+  async listOrdersByUser(
+    userId: string,
+    { limit, startKey }: { limit: number; startKey?: PageKey },
+    signal?: AbortSignal
+  ): Promise<{ orders: Order[]; lastEvaluatedKey?: PageKey }> {
+    try {
+      const queryCommand = new QueryCommand({
+        TableName: this.tableName,
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :pk AND begins_with(GSI1SK, :sk)',
+        ExpressionAttributeValues: marshall({ ':pk': `USER#${userId}`, ':sk': 'ORDER#' }),
+        ExclusiveStartKey: startKey ? marshall(startKey) : undefined,
+        ScanIndexForward: false,
+        Limit: limit,
+      });
+
+      const response = await this.dynamoClient.send(queryCommand, { abortSignal: signal });
+      const orders = (response.Items || []).map(item => unmarshall(item) as Order);
+
+      logger.info('Orders listed successfully', { userId, count: orders.length });
+
+      return {
+        orders,
+        lastEvaluatedKey: response.LastEvaluatedKey
+          ? unmarshall(response.LastEvaluatedKey)
+          : undefined,
+      };
+    } catch (error) {
+      logger.error('Failed to list orders', { error, userId });
+      throw error;
     }
   }
 
@@ -131,10 +184,5 @@ export class OrderService {
  * Factory function to create OrderService instance with singleton client
  */
 export const createOrderService = (): OrderService => {
-  const tableName = process.env.TABLE_NAME;
-  if (!tableName) {
-    throw new Error('TABLE_NAME environment variable is required');
-  }
-
-  return new OrderService(AWSClients.dynamoDB, tableName);
+  return new OrderService(AWSClients.dynamoDB, config.get().TABLE_NAME);
 };
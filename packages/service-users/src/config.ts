@@ -0,0 +1,12 @@
+import { z } from 'zod';
+import { defineConfig } from '@shared/core';
+
+/**
+ * User service environment, validated at cold start
+ */
+export const config = defineConfig(
+  z.object({
+    TABLE_NAME: z.string().min(1),
+    COGNITO_USER_POOL_ID: z.string().min(1),
+  })
+);
@@ -1,12 +1,19 @@
 import { createRouter, route } from '@shared/core';
 import { getUserProfileHandler } from './handlers';
+
 /**
- * Create users service router using new middleware
+ * Users service routes (protected by the JWT authorizer)
  */
-export const handler = createRouter([
+export const routes = [
   route({
     method: 'GET',
     path: '/users/profile',
     handler: getUserProfileHandler,
+    docs: { summary: "Get the current user's profile", tags: ['users'] },
   }),
-]);
+];
+
+/**
+ * Create users service router using new middleware
+ */
+export const handler = createRouter(routes);
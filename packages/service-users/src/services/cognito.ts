@@ -6,6 +6,7 @@ import {
   AdminGetUserCommand,
   AttributeType,
 } from '@shared/core';
+import { config } from '../config';
 
 const logger = createLogger('cognito-service');
 
@@ -132,7 +133,7 @@ export class CognitoService {
 
 // Factory function to create CognitoService instance with singleton client
 export const createCognitoService = (userPoolId?: string): CognitoService => {
-  const poolId = userPoolId || process.env.COGNITO_USER_POOL_ID;
+  const poolId = userPoolId || config.get().COGNITO_USER_POOL_ID;
   if (!poolId) {
     throw new Error('Cognito User Pool ID is required');
   }
@@ -7,6 +7,7 @@ import {
   unmarshall,
 } from '@shared/core';
 import { Address, ExtendedUserProfile } from '../schemas';
+import { config } from '../config';
 
 const logger = createLogger('user-profile-service');
 
@@ -83,7 +84,7 @@ export class UserProfileService {
 
 // Factory function to create UserProfileService instance with singleton client
 export const createUserProfileService = (tableName?: string): UserProfileService => {
-  const table = tableName || process.env.TABLE_NAME;
+  const table = tableName || config.get().TABLE_NAME;
   if (!table) {
     throw new Error('DynamoDB table name is required');
   }
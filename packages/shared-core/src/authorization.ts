@@ -0,0 +1,217 @@
+import { Context } from 'aws-lambda';
+import {
+  AWSClients,
+  DynamoDBClient,
+  GetItemCommand,
+  marshall,
+  unmarshall,
+} from './clients/aws-clients';
+import { ForbiddenError, UnauthorizedError } from './errors';
+import { AuthorizedEvent, getPrincipal, Principal, PrincipalType } from './jwt-utils';
+import { createLogger } from './logger';
+import { validateSchema } from './routing';
+import type { ParsedEvent, Route } from './types';
+
+export const DEFAULT_ROLE_CACHE_TTL_SECONDS = 60;
+
+const logger = createLogger('authorization');
+
+export interface AuthorizationRequest<E = ParsedEvent> {
+  /** The request event: raw path and query parameters, body not yet parsed */
+  event: E;
+  context: Context;
+  signal: AbortSignal;
+  /** The authenticated caller (Cognito user, partner API key or IAM) */
+  principal: Principal;
+  /** Cognito `sub`, set only for user principals */
+  userId?: string;
+}
+
+export interface AuthorizationGuard<E = ParsedEvent> {
+  /** Identifies the guard in audit logs, e.g. `scopes(orders:write)` */
+  name: string;
+  check: (request: AuthorizationRequest<E>) => Promise<boolean> | boolean;
+}
+
+/** Look up a user's business role (e.g. `customer` or `admin`) */
+export type RoleResolver = (userId: string, signal?: AbortSignal) => Promise<string | undefined>;
+
+/**
+ * Allow callers granted every listed scope (OAuth scopes for users, authorizer scopes for
+ * API keys)
+ */
+export const requireScopes = (...scopes: string[]): AuthorizationGuard<AuthorizedEvent> => ({
+  name: `scopes(${scopes.join(' ')})`,
+  check: ({ principal }) => scopes.every(scope => principal.scopes.includes(scope)),
+});
+
+/**
+ * Allow members of any of the listed Cognito groups (`cognito:groups`)
+ */
+export const requireGroups = (...groups: string[]): AuthorizationGuard<AuthorizedEvent> => ({
+  name: `groups(${groups.join(' ')})`,
+  check: ({ principal }) => groups.some(group => principal.groups.includes(group)),
+});
+
+/**
+ * Allow only the listed kinds of caller, e.g. `requirePrincipalType('iam')` for
+ * service-to-service routes
+ */
+export const requirePrincipalType = (
+  ...types: PrincipalType[]
+): AuthorizationGuard<AuthorizedEvent> => ({
+  name: `principalType(${types.join(' ')})`,
+  check: ({ principal }) => types.includes(principal.type),
+});
+
+/**
+ * Business roles from the user profile in the single table (PK `USER#{sub}`, SK `PROFILE`),
+ * cached per container for `ttlSeconds`. Users without a profile are customers.
+ */
+export const createDynamoRoleResolver = ({
+  tableName,
+  client,
+  ttlSeconds = DEFAULT_ROLE_CACHE_TTL_SECONDS,
+  defaultRole = 'customer',
+}: {
+  tableName?: string;
+  client?: DynamoDBClient;
+  ttlSeconds?: number;
+  defaultRole?: string;
+} = {}): RoleResolver => {
+  const cache = new Map<string, { role: string; expiresAt: number }>();
+  const table = () => {
+    const name = tableName || process.env.TABLE_NAME;
+    if (!name) {
+      throw new Error('TABLE_NAME environment variable is required');
+    }
+    return name;
+  };
+
+  return async (userId, signal) => {
+    const cached = cache.get(userId);
+    if (cached && Date.now() < cached.expiresAt) return cached.role;
+
+    const { Item } = await (client || AWSClients.dynamoDB).send(
+      new GetItemCommand({
+        TableName: table(),
+        Key: marshall({ PK: `USER#${userId}`, SK: 'PROFILE' }),
+        ProjectionExpression: 'businessRole',
+      }),
+      { abortSignal: signal }
+    );
+    const role = (Item && (unmarshall(Item).businessRole as string | undefined)) || defaultRole;
+
+    cache.set(userId, { role, expiresAt: Date.now() + ttlSeconds * 1000 });
+    return role;
+  };
+};
+
+let defaultRoleResolver: RoleResolver | undefined;
+
+/**
+ * Allow users whose profile `businessRole` is one of the listed roles (never API keys or IAM)
+ */
+export const requireRole = (
+  roles: string | string[],
+  { resolveRole }: { resolveRole?: RoleResolver } = {}
+): AuthorizationGuard<AuthorizedEvent> => {
+  const allowed = Array.isArray(roles) ? roles : [roles];
+
+  return {
+    name: `role(${allowed.join(' ')})`,
+    check: async ({ userId, signal }) => {
+      if (!userId) return false;
+
+      const resolve = resolveRole || (defaultRoleResolver ??= createDynamoRoleResolver());
+      const role = await resolve(userId, signal);
+      return role !== undefined && allowed.includes(role);
+    },
+  };
+};
+
+/**
+ * Allow the owner of the requested resource. `resolveOwnerId` returns the owning user's
+ * `sub`, or undefined when the resource does not exist so the handler can answer 404.
+ */
+export const requireOwnership = <E = ParsedEvent>(
+  resolveOwnerId: (request: AuthorizationRequest<E>) => Promise<string | undefined>
+): AuthorizationGuard<E> => ({
+  name: 'ownership',
+  check: async request => {
+    if (!request.userId) return false;
+
+    const ownerId = await resolveOwnerId(request);
+    return ownerId === undefined || ownerId === request.userId;
+  },
+});
+
+/**
+ * Allow the request when any of the guards allows it (e.g. the owner or an admin)
+ */
+export const anyOf = <E = ParsedEvent>(
+  ...guards: AuthorizationGuard<E>[]
+): AuthorizationGuard<E> => ({
+  name: `anyOf(${guards.map(guard => guard.name).join(', ')})`,
+  check: async request => {
+    for (const guard of guards) {
+      if (await guard.check(request)) return true;
+    }
+    return false;
+  },
+});
+
+/**
+ * Run a route's guards in order: 401 without a principal from any authorizer, 400 for path
+ * parameters that fail the route's `schema.path`, 403 on the first denial. Every decision
+ * is written to the audit log.
+ */
+export const authorizeRequest = async (
+  route: Pick<Route, 'method' | 'path' | 'authorize' | 'schema'>,
+  request: Omit<AuthorizationRequest, 'principal' | 'userId'>
+): Promise<void> => {
+  const guards = route.authorize || [];
+  if (guards.length === 0) return;
+
+  const audit = {
+    requestId: request.event.requestContext.requestId,
+    route: `${route.method} ${route.path}`,
+  };
+
+  let principal: Principal | undefined;
+  try {
+    principal = getPrincipal(request.event);
+  } catch (error) {
+    logger.warn('Authorization denied', { ...audit, reason: (error as Error).message });
+    throw error;
+  }
+  if (!principal) {
+    logger.warn('Authorization denied', { ...audit, reason: 'unauthenticated' });
+    throw new UnauthorizedError('Authentication required');
+  }
+
+  // Guards may load the resource named in the path, so never hand them a malformed id
+  if (route.schema?.path) {
+    request.event.pathParameters = validateSchema(
+      request.event.pathParameters,
+      route.schema.path,
+      'path parameters'
+    );
+  }
+
+  const caller = { principalType: principal.type, principalId: principal.id };
+  const userId = principal.type === 'user' ? principal.id : undefined;
+
+  for (const guard of guards) {
+    if (!(await guard.check({ ...request, principal, userId }))) {
+      logger.warn('Authorization denied', { ...audit, ...caller, guard: guard.name });
+      throw new ForbiddenError('Access denied');
+    }
+  }
+
+  logger.info('Authorization granted', {
+    ...audit,
+    ...caller,
+    guards: guards.map(guard => guard.name),
+  });
+};
@@ -1,18 +1,27 @@
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { CognitoIdentityProviderClient } from '@aws-sdk/client-cognito-identity-provider';
 import { EventBridgeClient } from '@aws-sdk/client-eventbridge';
+import { SSMClient } from '@aws-sdk/client-ssm';
+import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
 
 // Re-export types and utilities that services might need
 export type { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 export type { CognitoIdentityProviderClient } from '@aws-sdk/client-cognito-identity-provider';
 export type { EventBridgeClient } from '@aws-sdk/client-eventbridge';
+export type { SSMClient } from '@aws-sdk/client-ssm';
+export type { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
 export {
+  DeleteItemCommand,
   GetItemCommand,
   PutItemCommand,
+  QueryCommand,
+  type DeleteItemCommandInput,
   type GetItemCommandInput,
   type PutItemCommandInput,
+  type QueryCommandInput,
   type GetItemCommandOutput,
   type PutItemCommandOutput,
+  type QueryCommandOutput,
 } from '@aws-sdk/client-dynamodb';
 export { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
 export {
@@ -21,6 +30,8 @@ export {
   type AttributeType,
 } from '@aws-sdk/client-cognito-identity-provider';
 export { PutEventsCommand, type PutEventsRequestEntry } from '@aws-sdk/client-eventbridge';
+export { GetParameterCommand } from '@aws-sdk/client-ssm';
+export { GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
 
 /**
  * AWS Client Singletons
@@ -30,6 +41,8 @@ class AWSClients {
   private static _dynamoClient?: DynamoDBClient;
   private static _cognitoClient?: CognitoIdentityProviderClient;
   private static _eventBridgeClient?: EventBridgeClient;
+  private static _ssmClient?: SSMClient;
+  private static _secretsManagerClient?: SecretsManagerClient;
 
   /**
    * Get singleton DynamoDB client
@@ -70,6 +83,32 @@ class AWSClients {
     return this._eventBridgeClient;
   }
 
+  /**
+   * Get singleton SSM client
+   */
+  static get ssm(): SSMClient {
+    if (!this._ssmClient) {
+      this._ssmClient = new SSMClient({
+        region: process.env.AWS_REGION || 'ap-southeast-1',
+        maxAttempts: 3,
+      });
+    }
+    return this._ssmClient;
+  }
+
+  /**
+   * Get singleton Secrets Manager client
+   */
+  static get secretsManager(): SecretsManagerClient {
+    if (!this._secretsManagerClient) {
+      this._secretsManagerClient = new SecretsManagerClient({
+        region: process.env.AWS_REGION || 'ap-southeast-1',
+        maxAttempts: 3,
+      });
+    }
+    return this._secretsManagerClient;
+  }
+
   /**
    * Reset clients (useful for testing)
    */
@@ -77,6 +116,8 @@ class AWSClients {
     this._dynamoClient = undefined;
     this._cognitoClient = undefined;
     this._eventBridgeClient = undefined;
+    this._ssmClient = undefined;
+    this._secretsManagerClient = undefined;
   }
 }
 
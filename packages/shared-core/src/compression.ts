@@ -0,0 +1,66 @@
+import { promisify } from 'util';
+import { brotliCompress, constants, gzip } from 'zlib';
+
+export type ContentEncoding = 'br' | 'gzip';
+
+export interface CompressionOptions {
+  /** Minimum body size in bytes worth compressing (default: 1 KB) */
+  threshold?: number;
+  /** Supported encodings in server preference order (default: br, gzip) */
+  encodings?: ContentEncoding[];
+}
+
+export const DEFAULT_COMPRESSION_THRESHOLD = 1024;
+
+const brotliAsync = promisify(brotliCompress);
+const gzipAsync = promisify(gzip);
+
+const encoders: Record<ContentEncoding, (body: Buffer) => Promise<Buffer>> = {
+  // Lower brotli quality keeps dynamic responses fast while still beating gzip
+  br: body =>
+    brotliAsync(body, {
+      params: {
+        [constants.BROTLI_PARAM_QUALITY]: 5,
+        [constants.BROTLI_PARAM_SIZE_HINT]: body.length,
+      },
+    }),
+  gzip: body => gzipAsync(body),
+};
+
+/**
+ * Pick a content coding for an `Accept-Encoding` header (quality values and `*`).
+ * Ties are broken by the server preference order; returns null for identity.
+ */
+export const negotiateEncoding = (
+  acceptEncoding: string | undefined,
+  available: ContentEncoding[] = ['br', 'gzip']
+): ContentEncoding | null => {
+  if (!acceptEncoding?.trim()) return null;
+
+  const qualities = new Map<string, number>();
+  for (const entry of acceptEncoding.split(',')) {
+    const [coding, ...parameters] = entry.split(';').map(part => part.trim().toLowerCase());
+    if (!coding) continue;
+
+    const q = parameters.find(parameter => parameter.startsWith('q='));
+    const quality = q ? Number(q.slice(2)) : 1;
+    qualities.set(coding, isNaN(quality) ? 0 : quality);
+  }
+
+  const qualityOf = (coding: string) => qualities.get(coding) ?? qualities.get('*') ?? 0;
+
+  let best: ContentEncoding | null = null;
+  for (const coding of available) {
+    if (qualityOf(coding) > 0 && (!best || qualityOf(coding) > qualityOf(best))) {
+      best = coding;
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Compress a response body with the given content coding
+ */
+export const compressBody = (body: Buffer, encoding: ContentEncoding): Promise<Buffer> =>
+  encoders[encoding](body);
@@ -0,0 +1,142 @@
+import { z } from 'zod';
+import { createLogger } from './logger';
+import { getSecretsProvider, isSecretReference, SecretsProvider } from './secrets';
+
+const logger = createLogger('config');
+
+export interface ConfigIssue {
+  /** Environment variable name */
+  key: string;
+  message: string;
+}
+
+/**
+ * Thrown when the environment does not match a service's config schema, listing every problem
+ */
+export class ConfigError extends Error {
+  constructor(public issues: ConfigIssue[]) {
+    super(
+      `Invalid configuration:\n${issues.map(({ key, message }) => `  - ${key}: ${message}`).join('\n')}`
+    );
+    this.name = 'ConfigError';
+  }
+}
+
+export interface ConfigOptions {
+  /** Variables to read (default: `process.env`) */
+  env?: Record<string, string | undefined>;
+  /** Resolves `ssm:` and `secretsmanager:` references (default: `getSecretsProvider()`) */
+  secrets?: SecretsProvider;
+}
+
+export interface Config<T> {
+  /** Validated configuration; values that are secret references must be resolved with `load()` */
+  get: () => T;
+  /** Resolve secret references through the cached secrets provider and validate */
+  load: () => Promise<T>;
+}
+
+const validateConfig = <S extends z.ZodObject>(
+  schema: S,
+  values: Record<string, string | undefined>
+): z.output<S> => {
+  const result = schema.safeParse(values);
+  if (!result.success) {
+    throw new ConfigError(
+      result.error.issues.map(issue => ({
+        key: issue.path.join('.') || '(root)',
+        message: issue.message,
+      }))
+    );
+  }
+  return result.data;
+};
+
+/**
+ * Declare a service's environment as a Zod object schema.
+ *
+ * `get()` validates once (call it at module load to fail at cold start) and returns typed
+ * values. Variables holding `ssm:` or `secretsmanager:` references are resolved by `load()`
+ * through the secrets provider, whose cache TTL decides when rotated values are picked up;
+ * if resolving fails after a successful load, the last good values are kept.
+ *
+ * @example
+ * export const config = defineConfig(
+ *   z.object({ TABLE_NAME: z.string().min(1), ENABLE_MOCK: z.stringbool().default(false) })
+ * );
+ */
+export const defineConfig = <S extends z.ZodObject>(
+  schema: S,
+  { env, secrets }: ConfigOptions = {}
+): Config<z.output<S>> => {
+  const keys = Object.keys(schema.shape);
+  let current: { value: z.output<S>; resolved: string } | undefined;
+
+  const readEnv = () => {
+    const source = env || process.env;
+    return Object.fromEntries(keys.map(key => [key, source[key]]));
+  };
+  const referencesIn = (values: Record<string, string | undefined>) =>
+    keys.filter(key => isSecretReference(values[key]));
+
+  const resolve = async (): Promise<z.output<S>> => {
+    const values = readEnv();
+    const provider = secrets || getSecretsProvider();
+    const issues: ConfigIssue[] = [];
+
+    await Promise.all(
+      referencesIn(values).map(async key => {
+        try {
+          values[key] = await provider.get(values[key]!);
+        } catch (error) {
+          issues.push({
+            key,
+            message: `Failed to resolve ${values[key]}: ${(error as Error).message}`,
+          });
+        }
+      })
+    );
+    if (issues.length > 0) throw new ConfigError(issues);
+
+    // Only re-validate when a resolved value changed
+    const resolved = JSON.stringify(values);
+    if (current?.resolved !== resolved) {
+      current = { value: validateConfig(schema, values), resolved };
+    }
+    return current.value;
+  };
+
+  return {
+    get: () => {
+      if (current) return current.value;
+
+      const values = readEnv();
+      const references = referencesIn(values);
+      if (references.length > 0) {
+        throw new ConfigError(
+          references.map(key => ({
+            key,
+            message: `${values[key]} must be resolved with load() before get()`,
+          }))
+        );
+      }
+
+      current = { value: validateConfig(schema, values), resolved: JSON.stringify(values) };
+      return current.value;
+    },
+
+    load: async () => {
+      if (current && referencesIn(readEnv()).length === 0) return current.value;
+
+      try {
+        return await resolve();
+      } catch (error) {
+        if (!current) throw error;
+        logger.warn('Failed to refresh configuration, using cached values', {
+          error: (error as Error).message,
+        });
+        return current.value;
+      }
+    },
+  };
+};
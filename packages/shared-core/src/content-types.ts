@@ -0,0 +1,558 @@
+// Request body parsers, response serializers and Accept negotiation
+
+export interface ContentType {
+  mediaType: string;
+  parameters: Record<string, string>;
+}
+
+export type BodyParser = (body: Buffer, contentType: ContentType) => unknown;
+
+export type ResponseSerializer = (data: unknown) => string;
+
+export interface MultipartFile {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+  size: number;
+}
+
+export type MultipartValue = string | MultipartFile;
+
+// Lambda's synchronous invocation payload limit
+export const DEFAULT_MAX_BODY_SIZE = 6 * 1024 * 1024;
+
+const JSON_MEDIA_TYPE = 'application/json';
+
+/**
+ * Case-insensitive header lookup
+ */
+export const getHeader = (
+  headers: Record<string, string | undefined> | undefined,
+  name: string
+): string | undefined => {
+  const key = Object.keys(headers || {}).find(header => header.toLowerCase() === name);
+  return key ? headers![key] : undefined;
+};
+
+/**
+ * Append a value to a `Vary` header without duplicating it
+ */
+export const appendVary = (vary: unknown, value: string): string => {
+  const values = typeof vary === 'string' && vary ? vary.split(',').map(v => v.trim()) : [];
+  return values.some(v => v.toLowerCase() === value.toLowerCase() || v === '*')
+    ? values.join(', ')
+    : [...values, value].join(', ');
+};
+
+/**
+ * Parse `key=value` header parameters (quoted values are unquoted)
+ */
+const parseHeaderParameters = (segments: string[]): Record<string, string> => {
+  const parameters: Record<string, string> = {};
+
+  for (const segment of segments) {
+    const separator = segment.indexOf('=');
+    if (separator === -1) continue;
+
+    const key = segment.slice(0, separator).trim().toLowerCase();
+    let value = segment.slice(separator + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+    parameters[key] = value;
+  }
+
+  return parameters;
+};
+
+/**
+ * Split a header value on a separator, ignoring separators inside quoted strings
+ */
+const splitHeader = (value: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (const char of value) {
+    if (char === '"') quoted = !quoted;
+    if (char === separator && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts;
+};
+
+export const parseContentType = (header: string): ContentType => {
+  const [mediaType, ...parameters] = splitHeader(header, ';');
+  return {
+    mediaType: mediaType.trim().toLowerCase(),
+    parameters: parseHeaderParameters(parameters),
+  };
+};
+
+const decodeText = (body: Buffer, contentType: ContentType): string => {
+  const charset = (contentType.parameters.charset || 'utf-8').toLowerCase();
+  const encoding: BufferEncoding = ['latin1', 'iso-8859-1', 'us-ascii'].includes(charset)
+    ? 'latin1'
+    : 'utf-8';
+  return body.toString(encoding).replace(/^\uFEFF/, '');
+};
+
+/**
+ * Parse multipart/form-data. Fields become strings, file parts become `MultipartFile`s;
+ * repeated field names are collected into arrays.
+ */
+export const parseMultipart = (
+  body: Buffer,
+  contentType: ContentType
+): Record<string, MultipartValue | MultipartValue[]> => {
+  const { boundary } = contentType.parameters;
+  if (!boundary) {
+    throw new Error('Missing multipart boundary');
+  }
+
+  const delimiter = Buffer.from(`--${boundary}`);
+  const fields: Record<string, MultipartValue | MultipartValue[]> = {};
+
+  let position = body.indexOf(delimiter);
+  if (position === -1) {
+    throw new Error('Multipart boundary not found in body');
+  }
+
+  for (;;) {
+    position += delimiter.length;
+    if (body.subarray(position, position + 2).toString() === '--') break;
+
+    const partStart = body.indexOf('\r\n', position) + 2;
+    const next = body.indexOf(delimiter, partStart);
+    if (partStart < 2 || next === -1) {
+      throw new Error('Unterminated multipart body');
+    }
+
+    // The CRLF preceding the next delimiter belongs to the delimiter
+    const part = body.subarray(partStart, next - 2);
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd === -1) {
+      throw new Error('Malformed multipart part');
+    }
+
+    const headers: Record<string, string> = {};
+    for (const line of part.subarray(0, headerEnd).toString('utf-8').split('\r\n')) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+      }
+    }
+
+    const disposition = parseContentType(headers['content-disposition'] || '');
+    const { name, filename } = disposition.parameters;
+    if (disposition.mediaType !== 'form-data' || !name) {
+      throw new Error('Multipart part without a form-data name');
+    }
+
+    const content = part.subarray(headerEnd + 4);
+    const value: MultipartValue =
+      filename !== undefined
+        ? {
+            filename,
+            contentType: headers['content-type'] || 'application/octet-stream',
+            content: Buffer.from(content),
+            size: content.length,
+          }
+        : content.toString('utf-8');
+
+    const existing = fields[name];
+    fields[name] =
+      existing === undefined
+        ? value
+        : [...(Array.isArray(existing) ? existing : [existing]), value];
+
+    position = next;
+  }
+
+  return fields;
+};
+
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Unterminated quoted CSV field');
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(fields => fields.length > 1 || fields[0] !== '');
+};
+
+/**
+ * Parse text/csv (RFC 4180) into one record per row keyed by the header row.
+ * With `header=absent` (RFC 7111) the raw rows are returned instead.
+ */
+export const parseCsv = (
+  body: Buffer,
+  contentType: ContentType
+): Record<string, string>[] | string[][] => {
+  const rows = parseCsvRows(decodeText(body, contentType));
+  if (contentType.parameters.header === 'absent') {
+    return rows;
+  }
+
+  const [header = [], ...records] = rows;
+  return records.map((record, index) => {
+    if (record.length !== header.length) {
+      throw new Error(
+        `CSV row ${index + 2} has ${record.length} fields, expected ${header.length}`
+      );
+    }
+    return Object.fromEntries(header.map((column, i) => [column, record[i]]));
+  });
+};
+
+/**
+ * Parse application/x-ndjson into an array with one value per non-empty line
+ */
+export const parseNdjson = (body: Buffer, contentType: ContentType): unknown[] =>
+  decodeText(body, contentType)
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '')
+    .map(line => JSON.parse(line));
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+const decodeXmlEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-z]+);/g, (entity, code: string) => {
+    if (code.startsWith('#x')) return String.fromCodePoint(parseInt(code.slice(2), 16));
+    if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10));
+    if (code in XML_ENTITIES) return XML_ENTITIES[code];
+    throw new Error(`Unknown XML entity ${entity}`);
+  });
+
+/**
+ * Parse XML into plain objects: `{ root: { child: 'text' } }`.
+ * Attributes are keyed `@name`, mixed text is kept under `#text` and repeated
+ * elements become arrays. DOCTYPE declarations are rejected (no entity expansion).
+ */
+export const parseXml = (body: Buffer, contentType: ContentType): Record<string, unknown> => {
+  const xml = decodeText(body, contentType);
+  let position = 0;
+
+  const skipUntil = (terminator: string) => {
+    const end = xml.indexOf(terminator, position);
+    if (end === -1) throw new Error(`Unterminated XML: expected "${terminator}"`);
+    position = end + terminator.length;
+  };
+
+  const skipMisc = () => {
+    for (;;) {
+      while (/\s/.test(xml[position] || '')) position++;
+      if (xml.startsWith('<?', position)) skipUntil('?>');
+      else if (xml.startsWith('<!--', position)) skipUntil('-->');
+      else if (xml.startsWith('<!DOCTYPE', position)) throw new Error('XML DOCTYPE is not allowed');
+      else return;
+    }
+  };
+
+  const parseElement = (): [string, unknown] => {
+    const open = /^<([^\s/>]+)/.exec(xml.slice(position));
+    if (!open) throw new Error(`Expected XML element at position ${position}`);
+
+    const name = open[1];
+    const element: Record<string, unknown> = {};
+    position += open[0].length;
+
+    const attribute = /^\s+([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/;
+    let match: RegExpExecArray | null;
+    while ((match = attribute.exec(xml.slice(position)))) {
+      element[`@${match[1]}`] = decodeXmlEntities(match[2] ?? match[3]);
+      position += match[0].length;
+    }
+
+    while (/\s/.test(xml[position] || '')) position++;
+    if (xml.startsWith('/>', position)) {
+      position += 2;
+      return [name, Object.keys(element).length > 0 ? element : ''];
+    }
+    if (xml[position] !== '>') throw new Error(`Malformed XML element <${name}>`);
+    position++;
+
+    let text = '';
+    let hasChildren = false;
+
+    for (;;) {
+      if (position >= xml.length) throw new Error(`Unclosed XML element <${name}>`);
+
+      if (xml.startsWith('</', position)) {
+        const close = /^<\/([^\s>]+)\s*>/.exec(xml.slice(position));
+        if (!close || close[1] !== name) throw new Error(`Mismatched closing tag for <${name}>`);
+        position += close[0].length;
+        break;
+      } else if (xml.startsWith('<![CDATA[', position)) {
+        const start = position + 9;
+        skipUntil(']]>');
+        text += xml.slice(start, position - 3);
+      } else if (xml.startsWith('<!--', position) || xml.startsWith('<?', position)) {
+        skipUntil(xml.startsWith('<!--', position) ? '-->' : '?>');
+      } else if (xml[position] === '<') {
+        const [childName, child] = parseElement();
+        const existing = element[childName];
+        element[childName] =
+          existing === undefined
+            ? child
+            : [...(Array.isArray(existing) ? existing : [existing]), child];
+        hasChildren = true;
+      } else {
+        const end = xml.indexOf('<', position);
+        text += decodeXmlEntities(xml.slice(position, end === -1 ? xml.length : end));
+        position = end === -1 ? xml.length : end;
+      }
+    }
+
+    if (!hasChildren && Object.keys(element).length === 0) {
+      return [name, text];
+    }
+    if (text.trim() !== '') {
+      element['#text'] = hasChildren ? text.trim() : text;
+    }
+    return [name, element];
+  };
+
+  skipMisc();
+  const [rootName, root] = parseElement();
+  skipMisc();
+  if (position < xml.length) {
+    throw new Error('Unexpected content after XML root element');
+  }
+
+  return { [rootName]: root };
+};
+
+/**
+ * Default request body parsers keyed by media type.
+ * `+json` and `+xml` structured syntax suffixes fall back to the JSON and XML parsers.
+ */
+export const bodyParsers: Record<string, BodyParser> = {
+  'application/json': (body, contentType) => JSON.parse(decodeText(body, contentType)),
+  'application/x-www-form-urlencoded': (body, contentType) =>
+    Object.fromEntries(new URLSearchParams(decodeText(body, contentType))),
+  'multipart/form-data': parseMultipart,
+  'text/plain': decodeText,
+  'text/csv': parseCsv,
+  'application/x-ndjson': parseNdjson,
+  'application/xml': parseXml,
+  'text/xml': parseXml,
+  'application/octet-stream': body => body,
+};
+
+/**
+ * Find the parser for a media type, honouring `+json`/`+xml` suffixes
+ */
+export const findBodyParser = (
+  parsers: Record<string, BodyParser>,
+  mediaType: string
+): BodyParser | undefined => {
+  if (parsers[mediaType]) return parsers[mediaType];
+  if (mediaType.endsWith('+json')) return parsers['application/json'];
+  if (mediaType.endsWith('+xml')) return parsers['application/xml'];
+  return undefined;
+};
+
+const toCsvField = (value: unknown): string => {
+  const text =
+    value === null || value === undefined
+      ? ''
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialize rows to CSV. Object rows get a header row with the union of their keys.
+ */
+export const serializeCsv: ResponseSerializer = data => {
+  const rows = Array.isArray(data) ? data : [data];
+
+  if (rows.every(Array.isArray)) {
+    return rows.map(row => row.map(toCsvField).join(',')).join('\r\n');
+  }
+
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row ?? {})))];
+  return [columns, ...rows.map(row => columns.map(column => row?.[column]))]
+    .map(row => row.map(toCsvField).join(','))
+    .join('\r\n');
+};
+
+const escapeXml = (text: string): string =>
+  text.replace(
+    /[<>&"']/g,
+    char => `&${Object.keys(XML_ENTITIES).find(key => XML_ENTITIES[key] === char)};`
+  );
+
+// The XML 1.0 `Name` production (NameStartChar NameChar*)
+const XML_NAME_START =
+  ':A-Z_a-z\\u00C0-\\u00D6\\u00D8-\\u00F6\\u00F8-\\u02FF\\u0370-\\u037D\\u037F-\\u1FFF\\u200C-\\u200D' +
+  '\\u2070-\\u218F\\u2C00-\\u2FEF\\u3001-\\uD7FF\\uF900-\\uFDCF\\uFDF0-\\uFFFD\\u{10000}-\\u{EFFFF}';
+const XML_NAME = new RegExp(
+  `^[${XML_NAME_START}][${XML_NAME_START}\\-.0-9\\u00B7\\u0300-\\u036F\\u203F-\\u2040]*$`,
+  'u'
+);
+
+/**
+ * Keys that are not valid XML names (e.g. `"2024"` or `"first name"`) become
+ * `<entry key="...">` elements so the document stays well-formed
+ */
+const toXmlElement = (name: string, value: unknown): string => {
+  if (Array.isArray(value)) {
+    return value.map(item => toXmlElement(name, item)).join('');
+  }
+
+  const [tag, keyAttribute] = XML_NAME.test(name)
+    ? [name, '']
+    : ['entry', ` key="${escapeXml(name)}"`];
+
+  if (value === null || value === undefined) {
+    return `<${tag}${keyAttribute}/>`;
+  }
+  if (typeof value !== 'object') {
+    return `<${tag}${keyAttribute}>${escapeXml(String(value))}</${tag}>`;
+  }
+
+  let attributes = keyAttribute;
+  let content = '';
+  for (const [key, child] of Object.entries(value)) {
+    if (key.startsWith('@') && XML_NAME.test(key.slice(1))) {
+      attributes += ` ${key.slice(1)}="${escapeXml(String(child))}"`;
+    } else if (key === '#text') {
+      content += escapeXml(String(child));
+    } else {
+      content += toXmlElement(key, child);
+    }
+  }
+  return `<${tag}${attributes}>${content}</${tag}>`;
+};
+
+/**
+ * Serialize data to XML under a `<response>` root; arrays become repeated `<item>` elements
+ */
+export const serializeXml: ResponseSerializer = data =>
+  `<?xml version="1.0" encoding="UTF-8"?>${toXmlElement(
+    'response',
+    Array.isArray(data) ? { item: data } : data
+  )}`;
+
+/**
+ * Default response serializers keyed by media type, in server preference order
+ */
+export const responseSerializers: Record<string, ResponseSerializer> = {
+  [JSON_MEDIA_TYPE]: data => (typeof data === 'string' ? data : JSON.stringify(data)),
+  'text/plain': data => (typeof data === 'string' ? data : JSON.stringify(data)),
+  'text/csv': serializeCsv,
+  'application/x-ndjson': data =>
+    (Array.isArray(data) ? data : [data]).map(item => `${JSON.stringify(item)}\n`).join(''),
+  'application/xml': serializeXml,
+  'text/xml': serializeXml,
+};
+
+/**
+ * Pick the response media type for an `Accept` header (quality values and wildcards).
+ * Returns JSON when the header is absent and null when nothing acceptable is supported.
+ */
+export const negotiateMediaType = (
+  accept: string | undefined,
+  available: string[] = Object.keys(responseSerializers)
+): string | null => {
+  if (!accept?.trim()) return JSON_MEDIA_TYPE;
+
+  const ranges = splitHeader(accept, ',')
+    .map((range, index) => {
+      const { mediaType, parameters } = parseContentType(range);
+      const quality = parameters.q === undefined ? 1 : Number(parameters.q);
+      const specificity = mediaType === '*/*' ? 0 : mediaType.endsWith('/*') ? 1 : 2;
+      return { mediaType, quality: isNaN(quality) ? 0 : quality, specificity, index };
+    })
+    .filter(range => range.mediaType);
+
+  const matches = (range: string, mediaType: string) =>
+    range === '*/*' ||
+    range === mediaType ||
+    (range.endsWith('/*') && mediaType.startsWith(range.slice(0, -1)));
+
+  // The most specific matching range decides a media type's quality
+  const qualityOf = (mediaType: string): number => {
+    const range = ranges
+      .filter(candidate => matches(candidate.mediaType, mediaType))
+      .sort((a, b) => b.specificity - a.specificity)[0];
+    return range ? range.quality : 0;
+  };
+
+  const preferred = ranges
+    .filter(range => range.quality > 0)
+    .sort((a, b) => b.quality - a.quality || b.specificity - a.specificity || a.index - b.index);
+
+  for (const range of preferred) {
+    const candidates = range.mediaType === '*/*' ? [JSON_MEDIA_TYPE, ...available] : available;
+    const mediaType = candidates.find(
+      candidate =>
+        available.includes(candidate) &&
+        matches(range.mediaType, candidate) &&
+        qualityOf(candidate) > 0
+    );
+    if (mediaType) return mediaType;
+  }
+
+  return null;
+};
+
+/**
+ * Serialize response data for a media type (JSON when no serializer is registered)
+ */
+export const serializeBody = (
+  data: unknown,
+  mediaType: string,
+  serializers: Record<string, ResponseSerializer> = responseSerializers
+): string => (serializers[mediaType] || serializers[JSON_MEDIA_TYPE])(data);
@@ -0,0 +1,121 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
+import { appendVary, getHeader } from './content-types';
+
+export interface CorsOptions {
+  /**
+   * Allowed origins: exact origins, `*` for any origin (not with `credentials`), or wildcard
+   * patterns such as `https://*.example.com`
+   */
+  origins: string[];
+  /** Send `Access-Control-Allow-Credentials: true` (the origin is echoed instead of `*`) */
+  credentials?: boolean;
+  /** Preflight `Access-Control-Allow-Headers` (default: echo the requested headers) */
+  allowedHeaders?: string[];
+  /** Preflight `Access-Control-Allow-Methods` (default: the methods the path allows) */
+  methods?: string[];
+  /** Response headers readable by browser scripts */
+  exposedHeaders?: string[];
+  /** Preflight cache lifetime in seconds */
+  maxAge?: number;
+}
+
+const originPattern = (origin: string): RegExp =>
+  new RegExp(
+    `^${origin
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\/]/g, '\\$&'))
+      .join('[a-z0-9.-]+')}$`,
+    'i'
+  );
+
+/**
+ * Whether `origin` is allowed by the configured origins
+ */
+export const isOriginAllowed = (origin: string, origins: string[]): boolean =>
+  origins.some(allowed => allowed === '*' || originPattern(allowed).test(origin));
+
+/**
+ * Reject `*` with `credentials`: echoing every origin would let any site make
+ * credentialed requests, so such policies must list their origins
+ */
+export const assertCorsOptions = (options: CorsOptions): void => {
+  if (options.credentials && options.origins.includes('*')) {
+    throw new Error('CORS origins must be listed explicitly when credentials are allowed');
+  }
+};
+
+/**
+ * CORS headers for a request/response pair. Disallowed origins get no CORS headers,
+ * so the browser blocks the response. Preflight requests (OPTIONS with
+ * `Access-Control-Request-Method`) additionally get the allowed methods, headers and max-age.
+ */
+export const corsHeaders = (
+  event: Pick<APIGatewayProxyEventV2, 'headers' | 'requestContext'>,
+  response: APIGatewayProxyResultV2,
+  options: CorsOptions
+): Record<string, string> => {
+  const responseHeaders = (typeof response === 'object' && response.headers) || {};
+  const anyOrigin = options.origins.includes('*') && !options.credentials;
+  const headers: Record<string, string> = anyOrigin
+    ? {}
+    : { Vary: appendVary(responseHeaders.Vary, 'Origin') };
+
+  const origin = getHeader(event.headers, 'origin');
+  if (!origin || !isOriginAllowed(origin, options.origins)) {
+    return headers;
+  }
+
+  headers['Access-Control-Allow-Origin'] = anyOrigin ? '*' : origin;
+  if (options.credentials) {
+    headers['Access-Control-Allow-Credentials'] = 'true';
+  }
+
+  const requestMethod = getHeader(event.headers, 'access-control-request-method');
+  const isPreflight = event.requestContext.http.method.toUpperCase() === 'OPTIONS' && requestMethod;
+
+  if (!isPreflight) {
+    if (options.exposedHeaders?.length) {
+      headers['Access-Control-Expose-Headers'] = options.exposedHeaders.join(', ');
+    }
+    return headers;
+  }
+
+  const methods = options.methods?.join(', ') ?? responseHeaders.Allow;
+  if (methods !== undefined) {
+    headers['Access-Control-Allow-Methods'] = String(methods);
+  }
+
+  const requestHeaders = getHeader(event.headers, 'access-control-request-headers');
+  const allowedHeaders = options.allowedHeaders?.join(', ') ?? requestHeaders;
+  if (allowedHeaders) {
+    headers['Access-Control-Allow-Headers'] = allowedHeaders;
+    if (!options.allowedHeaders) {
+      headers.Vary = appendVary(
+        headers.Vary ?? responseHeaders.Vary,
+        'Access-Control-Request-Headers'
+      );
+    }
+  }
+
+  if (options.maxAge !== undefined) {
+    headers['Access-Control-Max-Age'] = String(options.maxAge);
+  }
+
+  return headers;
+};
+
+/**
+ * Add CORS headers to a response (string results are returned unchanged)
+ */
+export const withCorsHeaders = (
+  event: Pick<APIGatewayProxyEventV2, 'headers' | 'requestContext'>,
+  response: APIGatewayProxyResultV2,
+  options: CorsOptions
+): APIGatewayProxyResultV2 => {
+  if (typeof response !== 'object') return response;
+
+  return {
+    ...response,
+    headers: { ...response.headers, ...corsHeaders(event, response, options) },
+  };
+};
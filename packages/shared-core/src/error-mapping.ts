@@ -0,0 +1,102 @@
+import { HttpError, InternalServerError } from './errors';
+
+export interface ErrorMapping {
+  statusCode: number;
+  /** Client-facing message (defaults to the exception message for client faults) */
+  message?: string;
+  /** Problem `code` (defaults to the code derived from the status) */
+  code?: string;
+}
+
+/**
+ * AWS SDK exception names mapped to HTTP errors. Anything not listed is a server error.
+ */
+export const awsErrorMappings: Record<string, ErrorMapping> = {
+  // Cognito
+  NotAuthorizedException: { statusCode: 401 },
+  UserNotConfirmedException: { statusCode: 403 },
+  PasswordResetRequiredException: { statusCode: 403 },
+  // Generic so unauthenticated routes do not reveal whether an account exists
+  UserNotFoundException: { statusCode: 400, message: 'Request could not be completed' },
+  UsernameExistsException: { statusCode: 409 },
+  AliasExistsException: { statusCode: 409 },
+  InvalidPasswordException: { statusCode: 422 },
+  CodeMismatchException: { statusCode: 422, message: 'Invalid confirmation code' },
+  ExpiredCodeException: { statusCode: 422, message: 'Confirmation code has expired' },
+  InvalidParameterException: { statusCode: 422 },
+  TooManyRequestsException: { statusCode: 429 },
+  TooManyFailedAttemptsException: { statusCode: 429 },
+  LimitExceededException: { statusCode: 429 },
+
+  // DynamoDB
+  ConditionalCheckFailedException: { statusCode: 409, message: 'Resource state conflict' },
+  TransactionConflictException: { statusCode: 409, message: 'Resource state conflict' },
+  ProvisionedThroughputExceededException: { statusCode: 429, message: 'Too many requests' },
+  RequestLimitExceeded: { statusCode: 429, message: 'Too many requests' },
+  ThrottlingException: { statusCode: 429, message: 'Too many requests' },
+};
+
+/**
+ * Override for routes where account existence is not sensitive (e.g. authenticated lookups),
+ * answering `UserNotFoundException` with 404
+ */
+export const userNotFoundMappings: Record<string, ErrorMapping> = {
+  UserNotFoundException: { statusCode: 404, message: 'User not found' },
+};
+
+interface AwsServiceException extends Error {
+  $fault?: 'client' | 'server';
+  $metadata?: unknown;
+}
+
+const isAwsServiceException = (error: unknown): error is AwsServiceException =>
+  error instanceof Error && ('$metadata' in error || '$fault' in error);
+
+/**
+ * Translate any thrown value into an HttpError.
+ * HttpErrors pass through, known AWS SDK exceptions get their mapped status and
+ * everything else becomes a generic 500 with the original error as `cause`.
+ */
+export const toHttpError = (
+  error: unknown,
+  mappings: Record<string, ErrorMapping> = awsErrorMappings
+): HttpError => {
+  if (error instanceof HttpError) {
+    return error;
+  }
+
+  const mapping = isAwsServiceException(error) ? mappings[error.name] : undefined;
+  if (mapping) {
+    const message =
+      mapping.message ||
+      ((error as AwsServiceException).$fault === 'client' && (error as Error).message) ||
+      'Request failed';
+    const httpError = new HttpError(mapping.statusCode, message);
+    httpError.code = mapping.code || httpError.code;
+    httpError.cause = error;
+    return httpError;
+  }
+
+  const internalError = new InternalServerError();
+  internalError.cause = error;
+  return internalError;
+};
+
+/**
+ * Wrap a handler so anything it throws is translated with `toHttpError`.
+ * `overrides` replace individual mappings, e.g. to hide user enumeration on login.
+ */
+export const withErrorMapping = <Args extends unknown[], Result>(
+  handler: (...args: Args) => Promise<Result>,
+  overrides: Record<string, ErrorMapping> = {}
+): ((...args: Args) => Promise<Result>) => {
+  const mappings = { ...awsErrorMappings, ...overrides };
+
+  return async (...args: Args) => {
+    try {
+      return await handler(...args);
+    } catch (error) {
+      throw toHttpError(error, mappings);
+    }
+  };
+};
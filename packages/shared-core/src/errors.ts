@@ -0,0 +1,225 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
+import { STATUS_CODES } from 'http';
+import type { ZodError } from 'zod';
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+/**
+ * Field-level validation error (RFC 9457 `errors` extension member)
+ */
+export interface FieldError {
+  /** JSON pointer to the invalid field, e.g. "#/items/0/quantity" */
+  pointer: string;
+  detail: string;
+  code: string;
+}
+
+/**
+ * RFC 9457 problem details document
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance?: string;
+  code: string;
+  requestId?: string;
+  errors?: FieldError[];
+  details?: unknown;
+  timestamp: string;
+}
+
+/**
+ * Stable machine-readable code for a status ("Not Found" -> "NOT_FOUND")
+ */
+const codeForStatus = (statusCode: number): string =>
+  (STATUS_CODES[statusCode] || 'Error').toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+
+/**
+ * Problem type URI for an error code ("NOT_FOUND" -> "urn:problem-type:not-found")
+ */
+export const problemType = (code: string): string =>
+  `urn:problem-type:${code.toLowerCase().replace(/_/g, '-')}`;
+
+// Base HTTP error. Subclasses set a domain-specific `code`; otherwise it derives from the status.
+export class HttpError extends Error {
+  public code: string;
+
+  constructor(
+    public statusCode: number,
+    message: string,
+    public details?: any,
+    public headers?: Record<string, string>
+  ) {
+    super(message);
+    this.name = 'HttpError';
+    this.code = codeForStatus(statusCode);
+  }
+}
+
+// Domain error classes
+export class BadRequestError extends HttpError {
+  constructor(message: string = 'Bad request', details?: any) {
+    super(400, message, details);
+    this.name = 'BadRequestError';
+  }
+}
+
+export class ValidationError extends HttpError {
+  constructor(message: string, errors: FieldError[]) {
+    super(400, message, errors);
+    this.name = 'ValidationError';
+    this.code = 'VALIDATION_FAILED';
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(message: string = 'Unauthorized', details?: any) {
+    super(401, message, details);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message: string = 'Forbidden', details?: any) {
+    super(403, message, details);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message: string = 'Not found', details?: any) {
+    super(404, message, details);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class MethodNotAllowedError extends HttpError {
+  constructor(message: string, allow: string[]) {
+    super(405, message, undefined, { Allow: allow.join(', ') });
+    this.name = 'MethodNotAllowedError';
+  }
+}
+
+export class NotAcceptableError extends HttpError {
+  constructor(message: string = 'Not acceptable', details?: any) {
+    super(406, message, details);
+    this.name = 'NotAcceptableError';
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message: string = 'Conflict', details?: any) {
+    super(409, message, details);
+    this.name = 'ConflictError';
+  }
+}
+
+export class PayloadTooLargeError extends HttpError {
+  constructor(message: string = 'Request body too large', details?: any) {
+    super(413, message, details);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+export class UnsupportedMediaTypeError extends HttpError {
+  constructor(message: string = 'Unsupported media type', details?: any) {
+    super(415, message, details);
+    this.name = 'UnsupportedMediaTypeError';
+  }
+}
+
+export class UnprocessableEntityError extends HttpError {
+  constructor(message: string = 'Unprocessable entity', details?: any) {
+    super(422, message, details);
+    this.name = 'UnprocessableEntityError';
+  }
+}
+
+export class TooManyRequestsError extends HttpError {
+  constructor(message: string = 'Too many requests', details?: any, retryAfterSeconds?: number) {
+    super(
+      429,
+      message,
+      details,
+      retryAfterSeconds === undefined ? undefined : { 'Retry-After': String(retryAfterSeconds) }
+    );
+    this.name = 'TooManyRequestsError';
+  }
+}
+
+export class InternalServerError extends HttpError {
+  constructor(message: string = 'Internal server error', details?: any) {
+    super(500, message, details);
+    this.name = 'InternalServerError';
+  }
+}
+
+export class GatewayTimeoutError extends HttpError {
+  constructor(message: string = 'Request timed out', details?: any) {
+    super(504, message, details);
+    this.name = 'GatewayTimeoutError';
+  }
+}
+
+const escapePointerSegment = (segment: PropertyKey): string =>
+  String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+
+/**
+ * Convert Zod issues to field-level errors with JSON pointers
+ */
+export const toFieldErrors = (issues: ZodError['issues']): FieldError[] =>
+  issues.map(issue => ({
+    pointer: `#/${issue.path.map(escapePointerSegment).join('/')}`,
+    detail: issue.message,
+    code: issue.code,
+  }));
+
+/**
+ * Build the problem details document for an error. Unknown errors become a generic 500.
+ */
+export const toProblemDetails = (
+  error: unknown,
+  event?: APIGatewayProxyEventV2
+): ProblemDetails => {
+  const httpError = error instanceof HttpError ? error : new InternalServerError();
+
+  return {
+    type: problemType(httpError.code),
+    title: STATUS_CODES[httpError.statusCode] || 'Error',
+    status: httpError.statusCode,
+    detail: httpError.message,
+    ...(event && {
+      instance: event.requestContext.http.path,
+      requestId: event.requestContext.requestId,
+    }),
+    code: httpError.code,
+    ...(httpError instanceof ValidationError
+      ? { errors: httpError.details }
+      : httpError.details !== undefined && { details: httpError.details }),
+    timestamp: new Date().toISOString(),
+  };
+};
+
+/**
+ * Create an RFC 9457 `application/problem+json` error response.
+ * Pass the event to correlate the problem with the request (`instance`, `requestId`).
+ */
+export const createErrorResponse = (
+  error: any,
+  event?: APIGatewayProxyEventV2
+): APIGatewayProxyResultV2 => {
+  console.error('Lambda execution error:', error);
+
+  const problem = toProblemDetails(error, event);
+
+  return {
+    statusCode: problem.status,
+    headers: {
+      'Content-Type': PROBLEM_CONTENT_TYPE,
+      ...(error instanceof HttpError && error.headers),
+    },
+    body: JSON.stringify(problem),
+  };
+};
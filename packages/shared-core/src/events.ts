@@ -0,0 +1,277 @@
+import {
+  Context,
+  DynamoDBBatchResponse,
+  DynamoDBRecord,
+  DynamoDBStreamEvent,
+  EventBridgeEvent,
+  SQSBatchResponse,
+  SQSEvent,
+  SQSRecord,
+} from 'aws-lambda';
+import { ZodType } from 'zod';
+import { unmarshall } from './clients/aws-clients';
+import { HttpError, NotFoundError } from './errors';
+import { createLogger } from './logger';
+import { validateSchema } from './routing';
+
+const SCHEDULED_EVENT_TYPE = 'Scheduled Event';
+
+const logger = createLogger('events');
+
+export type EventSourceType = 'sqs' | 'eventbridge' | 'dynamodb' | 'schedule';
+
+export type DispatchableEvent = SQSEvent | DynamoDBStreamEvent | EventBridgeEvent<string, unknown>;
+
+export type EventBatchResponse = SQSBatchResponse | DynamoDBBatchResponse;
+
+/**
+ * A single event normalized from any supported source
+ */
+export interface DispatchedEvent<T = any> {
+  source: EventSourceType;
+  /**
+   * EventBridge `detail-type` (also for EventBridge events delivered through SQS), DynamoDB
+   * stream `eventName`, scheduled rule name, or SQS queue name
+   */
+  type: string;
+  /**
+   * EventBridge `detail`, parsed SQS message body, or DynamoDB image
+   * (the new image, or the old one for REMOVE)
+   */
+  payload: T;
+  /** EventBridge event id, SQS message id or DynamoDB stream event id */
+  id?: string;
+  /** Previous DynamoDB image for MODIFY and REMOVE */
+  oldImage?: Record<string, any>;
+  /** The record or event as delivered to the Lambda */
+  raw: SQSRecord | DynamoDBRecord | EventBridgeEvent<string, unknown>;
+}
+
+export interface EventHandlerContext<T = any> {
+  event: DispatchedEvent<T>;
+  context: Context;
+}
+
+export type EventHandler<T = any> = (ctx: EventHandlerContext<T>) => Promise<void> | void;
+
+export interface EventRoute<T = any> {
+  source: EventSourceType;
+  /** Event type to match (see `DispatchedEvent.type`); omit or `*` to match any */
+  type?: string;
+  /** Extra predicate, e.g. to select an entity type from a single-table stream */
+  filter?: (event: DispatchedEvent) => boolean;
+  /** Validates the payload; failures count as failed events, like invalid requests */
+  schema?: ZodType<T>;
+  handler: EventHandler<T>;
+}
+
+export interface EventDispatcherOptions {
+  /** What to do with events no route matches (default: `ignore`, logging a warning) */
+  unmatched?: 'ignore' | 'fail';
+}
+
+const parseJson = (body: string): unknown => {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+};
+
+const isEventBridgeEvent = (value: unknown): value is EventBridgeEvent<string, unknown> =>
+  typeof value === 'object' && value !== null && 'detail-type' in value && 'detail' in value;
+
+// "arn:aws:events:region:account:rule/nightly-report" -> "nightly-report"
+const resourceName = (arn = '') => arn.slice(arn.lastIndexOf('/') + 1) || arn;
+
+const fromEventBridge = (event: EventBridgeEvent<string, unknown>): Omit<DispatchedEvent, 'raw'> =>
+  event.source === 'aws.events' && event['detail-type'] === SCHEDULED_EVENT_TYPE
+    ? {
+        source: 'schedule',
+        type: resourceName(event.resources?.[0]),
+        payload: event.detail,
+        id: event.id,
+      }
+    : { source: 'eventbridge', type: event['detail-type'], payload: event.detail, id: event.id };
+
+const fromSQSRecord = (record: SQSRecord): DispatchedEvent => {
+  const body = parseJson(record.body);
+  if (isEventBridgeEvent(body)) {
+    return { ...fromEventBridge(body), raw: record };
+  }
+
+  return {
+    source: 'sqs',
+    type: record.eventSourceARN.split(':').pop()!,
+    payload: body,
+    id: record.messageId,
+    raw: record,
+  };
+};
+
+const fromDynamoDBRecord = (record: DynamoDBRecord): DispatchedEvent => {
+  const image = (value?: Record<string, unknown>) =>
+    value && unmarshall(value as Parameters<typeof unmarshall>[0]);
+  const newImage = image(record.dynamodb?.NewImage);
+  const oldImage = image(record.dynamodb?.OldImage);
+
+  return {
+    source: 'dynamodb',
+    type: record.eventName || 'UNKNOWN',
+    payload: newImage ?? oldImage,
+    id: record.eventID,
+    oldImage,
+    raw: record,
+  };
+};
+
+const eventLogContext = (event: DispatchedEvent) => ({
+  source: event.source,
+  type: event.type,
+  id: event.id,
+});
+
+const errorLogContext = (error: unknown) => ({
+  error: (error as Error).message,
+  ...(error instanceof HttpError && { code: error.code, details: error.details }),
+});
+
+/**
+ * Create a Lambda handler routing SQS, EventBridge, DynamoDB Streams and scheduled events
+ * to typed handlers by source and type, mirroring `createRouter` for HTTP events.
+ *
+ * SQS and DynamoDB batches return `batchItemFailures` so only failed records are retried
+ * (the event source mapping needs `reportBatchItemFailures`). Standard queues are processed
+ * concurrently; FIFO queues and streams in order, failing the rest of the batch after the
+ * first failure. Direct EventBridge and scheduled invocations rethrow so Lambda retries them.
+ */
+export const createEventDispatcher = (
+  routes: EventRoute[],
+  { unmatched = 'ignore' }: EventDispatcherOptions = {}
+) => {
+  const findRoute = (event: DispatchedEvent) =>
+    routes.find(
+      route =>
+        route.source === event.source &&
+        (route.type === undefined || route.type === '*' || route.type === event.type) &&
+        (!route.filter || route.filter(event))
+    );
+
+  const dispatch = async (event: DispatchedEvent, context: Context) => {
+    const route = findRoute(event);
+    if (!route) {
+      if (unmatched === 'fail') {
+        throw new NotFoundError(`No handler for ${event.source} event ${event.type}`);
+      }
+      logger.warn('Unhandled event', eventLogContext(event));
+      return;
+    }
+
+    const startTime = Date.now();
+    const payload = route.schema
+      ? validateSchema(event.payload, route.schema, `${event.source} event ${event.type}`)
+      : event.payload;
+    await route.handler({ event: { ...event, payload }, context });
+
+    logger.info('Event processed', {
+      ...eventLogContext(event),
+      duration: `${Date.now() - startTime}ms`,
+    });
+  };
+
+  const processRecord = async <R>(
+    record: R,
+    normalize: (record: R) => DispatchedEvent,
+    context: Context
+  ) => {
+    let event: DispatchedEvent | undefined;
+    try {
+      event = normalize(record);
+      await dispatch(event, context);
+    } catch (error) {
+      logger.error('Failed to process event', {
+        ...(event && eventLogContext(event)),
+        ...errorLogContext(error),
+      });
+      throw error;
+    }
+  };
+
+  const processBatch = async <R>(
+    records: R[],
+    normalize: (record: R) => DispatchedEvent,
+    itemIdentifier: (record: R) => string,
+    ordered: boolean,
+    context: Context
+  ): Promise<EventBatchResponse> => {
+    const failed: R[] = [];
+
+    if (ordered) {
+      for (const [index, record] of records.entries()) {
+        try {
+          await processRecord(record, normalize, context);
+        } catch {
+          failed.push(...records.slice(index));
+          break;
+        }
+      }
+    } else {
+      const results = await Promise.allSettled(
+        records.map(record => processRecord(record, normalize, context))
+      );
+      results.forEach((result, index) => {
+        if (result.status === 'rejected') failed.push(records[index]);
+      });
+    }
+
+    logger.info('Event batch processed', {
+      total: records.length,
+      successCount: records.length - failed.length,
+      failureCount: failed.length,
+    });
+
+    return {
+      batchItemFailures: failed.map(record => ({ itemIdentifier: itemIdentifier(record) })),
+    };
+  };
+
+  return async (event: DispatchableEvent, context: Context): Promise<EventBatchResponse | void> => {
+    logger.addContext(context);
+
+    if ('Records' in event) {
+      const records = event.Records as (SQSRecord | DynamoDBRecord)[];
+      const source = records[0]?.eventSource;
+
+      if (source === 'aws:sqs') {
+        const sqsRecords = records as SQSRecord[];
+        return processBatch(
+          sqsRecords,
+          fromSQSRecord,
+          record => record.messageId,
+          sqsRecords[0].eventSourceARN.endsWith('.fifo'),
+          context
+        );
+      }
+      if (source === 'aws:dynamodb') {
+        return processBatch(
+          records as DynamoDBRecord[],
+          fromDynamoDBRecord,
+          record => record.dynamodb?.SequenceNumber || '',
+          true,
+          context
+        );
+      }
+      if (records.length === 0) {
+        return { batchItemFailures: [] };
+      }
+      throw new Error(`Unsupported event source: ${source}`);
+    }
+
+    if (isEventBridgeEvent(event)) {
+      await processRecord(event, record => ({ ...fromEventBridge(record), raw: record }), context);
+      return;
+    }
+
+    throw new Error('Unsupported event');
+  };
+};
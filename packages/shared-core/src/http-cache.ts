@@ -0,0 +1,33 @@
+import { createHash } from 'crypto';
+
+/**
+ * Strong ETag for a response body (a hash of the exact bytes sent, so each
+ * content coding gets its own tag)
+ */
+export const computeETag = (body: string | Buffer): string =>
+  `"${createHash('sha256').update(body).digest('base64url').slice(0, 27)}"`;
+
+/**
+ * Whether an `If-None-Match` header matches the current ETag (weak comparison, RFC 9110 §13.1.2)
+ */
+export const matchesIfNoneMatch = (ifNoneMatch: string | undefined, etag: string): boolean => {
+  if (!ifNoneMatch) return false;
+  if (ifNoneMatch.trim() === '*') return true;
+
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+  return ifNoneMatch.split(',').some(tag => opaque(tag) === opaque(etag));
+};
+
+/**
+ * Representation metadata a 304 leaves out because it describes the omitted body
+ * (RFC 9110 §15.4.5). Every other header, such as `ETag`, `Cache-Control`, `Vary`,
+ * `Deprecation` or `RateLimit-*`, is repeated from the 200 it replaces.
+ */
+export const REPRESENTATION_HEADERS = [
+  'content-encoding',
+  'content-language',
+  'content-length',
+  'content-range',
+  'content-type',
+  'last-modified',
+];
@@ -0,0 +1,273 @@
+import { createHash } from 'crypto';
+import { APIGatewayProxyStructuredResultV2 } from 'aws-lambda';
+import {
+  AWSClients,
+  DeleteItemCommand,
+  DynamoDBClient,
+  GetItemCommand,
+  marshall,
+  PutItemCommand,
+  unmarshall,
+} from './clients/aws-clients';
+import { getHeader } from './content-types';
+import { BadRequestError, ConflictError } from './errors';
+import { getCallerId } from './jwt-utils';
+import { createLogger } from './logger';
+import type { Middleware } from './types';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const DEFAULT_IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+export const DEFAULT_IDEMPOTENCY_LOCK_SECONDS = 60;
+
+const MAX_KEY_LENGTH = 255;
+
+const logger = createLogger('idempotency');
+
+export type StoredResponse = Pick<
+  APIGatewayProxyStructuredResultV2,
+  'statusCode' | 'headers' | 'body' | 'isBase64Encoded'
+>;
+
+export interface IdempotencyRecord {
+  key: string;
+  requestHash: string;
+  status: 'IN_PROGRESS' | 'COMPLETED';
+  response?: StoredResponse;
+  /** Epoch seconds after which the record is ignored (and deleted by DynamoDB TTL) */
+  expiresAt: number;
+  /** Epoch seconds after which an in-progress request no longer holds the key */
+  lockExpiresAt?: number;
+}
+
+export interface IdempotencyStore {
+  /** Claim a key for an in-progress request; returns the existing record when already taken */
+  acquire: (
+    record: IdempotencyRecord,
+    signal?: AbortSignal
+  ) => Promise<IdempotencyRecord | undefined>;
+  /** Persist the final response for replay */
+  complete: (record: IdempotencyRecord, signal?: AbortSignal) => Promise<void>;
+  /** Release a key so the request can be retried; also called once the request was aborted */
+  release: (key: string) => Promise<void>;
+}
+
+export interface IdempotencyOptions {
+  store: IdempotencyStore;
+  /** How long final responses are replayed (default: 24 hours) */
+  ttlSeconds?: number;
+  /** How long an in-flight request holds its key before a retry may take over (default: 60s) */
+  lockSeconds?: number;
+  /** Reject requests without an `Idempotency-Key` header (default: false) */
+  required?: boolean;
+}
+
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+/**
+ * Idempotency store backed by the single table:
+ * PK `IDEMPOTENCY#{key}`, SK `IDEMPOTENCY`, expired through the table's `ttl` attribute.
+ */
+export const createDynamoIdempotencyStore = ({
+  tableName,
+  client,
+}: { tableName?: string; client?: DynamoDBClient } = {}): IdempotencyStore => {
+  const table = () => {
+    const name = tableName || process.env.TABLE_NAME;
+    if (!name) {
+      throw new Error('TABLE_NAME environment variable is required');
+    }
+    return name;
+  };
+  const dynamo = () => client || AWSClients.dynamoDB;
+  const keyOf = (key: string) => ({ PK: `IDEMPOTENCY#${key}`, SK: 'IDEMPOTENCY' });
+
+  const toItem = (record: IdempotencyRecord) =>
+    marshall(
+      {
+        ...keyOf(record.key),
+        requestHash: record.requestHash,
+        status: record.status,
+        response: record.response && JSON.stringify(record.response),
+        lockExpiresAt: record.lockExpiresAt,
+        ttl: record.expiresAt,
+      },
+      { removeUndefinedValues: true }
+    );
+
+  const fromItem = (item: Record<string, any>): IdempotencyRecord => {
+    const data = unmarshall(item);
+    return {
+      key: String(data.PK).slice('IDEMPOTENCY#'.length),
+      requestHash: data.requestHash,
+      status: data.status,
+      response: data.response ? JSON.parse(data.response) : undefined,
+      expiresAt: data.ttl,
+      lockExpiresAt: data.lockExpiresAt,
+    };
+  };
+
+  const acquire = async (
+    record: IdempotencyRecord,
+    signal?: AbortSignal
+  ): Promise<IdempotencyRecord | undefined> => {
+    try {
+      await dynamo().send(
+        new PutItemCommand({
+          TableName: table(),
+          Item: toItem(record),
+          // Take over keys that are free, expired but not yet swept, or held by a stale lock
+          ConditionExpression:
+            'attribute_not_exists(PK) OR #ttl < :now OR (#status = :inProgress AND lockExpiresAt < :now)',
+          ExpressionAttributeNames: { '#ttl': 'ttl', '#status': 'status' },
+          ExpressionAttributeValues: marshall({
+            ':now': nowInSeconds(),
+            ':inProgress': 'IN_PROGRESS',
+          }),
+          ReturnValuesOnConditionCheckFailure: 'ALL_OLD',
+        }),
+        { abortSignal: signal }
+      );
+      return undefined;
+    } catch (error) {
+      if ((error as Error).name !== 'ConditionalCheckFailedException') throw error;
+
+      const existing =
+        (error as { Item?: Record<string, any> }).Item ||
+        (
+          await dynamo().send(
+            new GetItemCommand({
+              TableName: table(),
+              Key: marshall(keyOf(record.key)),
+              ConsistentRead: true,
+            }),
+            { abortSignal: signal }
+          )
+        ).Item;
+      // Released between the write and the read: try again
+      return existing ? fromItem(existing) : acquire(record, signal);
+    }
+  };
+
+  return {
+    acquire,
+
+    complete: async (record, signal) => {
+      await dynamo().send(new PutItemCommand({ TableName: table(), Item: toItem(record) }), {
+        abortSignal: signal,
+      });
+    },
+
+    release: async key => {
+      await dynamo().send(new DeleteItemCommand({ TableName: table(), Key: marshall(keyOf(key)) }));
+    },
+  };
+};
+
+/**
+ * Hash of the request identity: method, path and raw body
+ */
+const hashRequest = (method: string, path: string, body: string | undefined): string =>
+  createHash('sha256')
+    .update(`${method} ${path}\n`)
+    .update(body || '')
+    .digest('hex');
+
+/**
+ * Makes a mutating route safe to retry with an `Idempotency-Key` header.
+ *
+ * The first request claims the key (scoped to the caller and route) and its final
+ * response is stored; retries with the same key and payload replay that response
+ * with `Idempotent-Replayed: true`. Reusing a key with a different payload, or while
+ * the first request is still running, returns 409. Errors and 5xx responses release
+ * the key so the request can be retried; a response that cannot be stored is still
+ * returned and the key stays locked until `lockSeconds` pass.
+ */
+export const idempotency = ({
+  store,
+  ttlSeconds = DEFAULT_IDEMPOTENCY_TTL_SECONDS,
+  lockSeconds = DEFAULT_IDEMPOTENCY_LOCK_SECONDS,
+  required = false,
+}: IdempotencyOptions): Middleware => ({
+  name: 'idempotency',
+  before: async ({ event, internal, signal }) => {
+    const idempotencyKey = getHeader(event.headers, 'idempotency-key');
+    if (!idempotencyKey) {
+      if (required) throw new BadRequestError(`${IDEMPOTENCY_KEY_HEADER} header is required`);
+      return;
+    }
+    if (idempotencyKey.length > MAX_KEY_LENGTH) {
+      throw new BadRequestError(
+        `${IDEMPOTENCY_KEY_HEADER} must be at most ${MAX_KEY_LENGTH} characters`
+      );
+    }
+
+    const { method, path } = event.requestContext.http;
+    const caller = getCallerId(event) || 'anonymous';
+    const now = nowInSeconds();
+    const record: IdempotencyRecord = {
+      key: `${caller}#${method.toUpperCase()} ${path}#${idempotencyKey}`,
+      requestHash: hashRequest(method.toUpperCase(), path, event.body),
+      status: 'IN_PROGRESS',
+      expiresAt: now + ttlSeconds,
+      lockExpiresAt: now + lockSeconds,
+    };
+
+    const existing = await store.acquire(record, signal);
+    if (!existing) {
+      internal.idempotency = record;
+      return;
+    }
+
+    if (existing.requestHash !== record.requestHash) {
+      throw new ConflictError(
+        `${IDEMPOTENCY_KEY_HEADER} has already been used with a different request`
+      );
+    }
+    if (existing.status !== 'COMPLETED' || !existing.response) {
+      throw new ConflictError(`A request with this ${IDEMPOTENCY_KEY_HEADER} is still in progress`);
+    }
+
+    return {
+      ...existing.response,
+      headers: { ...existing.response.headers, 'Idempotent-Replayed': 'true' },
+    };
+  },
+  after: async ({ internal, response, signal }) => {
+    const record = internal.idempotency as IdempotencyRecord | undefined;
+    if (!record) return;
+    // The handler has finished: a later error or timeout must not release the key
+    internal.idempotency = undefined;
+
+    if (typeof response !== 'object' || (response.statusCode ?? 200) >= 500) {
+      await store.release(record.key);
+      return;
+    }
+
+    const { statusCode, headers, body, isBase64Encoded } = response;
+    try {
+      await store.complete(
+        {
+          ...record,
+          status: 'COMPLETED',
+          response: { statusCode, headers, body, isBase64Encoded },
+          lockExpiresAt: undefined,
+        },
+        signal
+      );
+    } catch (error) {
+      // The handler already ran; keep the key locked so a retry cannot repeat it
+      logger.warn('Failed to store idempotent response', { error: (error as Error).message });
+    }
+  },
+  onError: async ({ internal }) => {
+    const record = internal.idempotency as IdempotencyRecord | undefined;
+    if (!record) return;
+
+    try {
+      await store.release(record.key);
+    } catch (error) {
+      // The lock expires on its own; keep the original error response
+      logger.warn('Failed to release idempotency key', { error: (error as Error).message });
+    }
+  },
+});
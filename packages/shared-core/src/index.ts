@@ -4,18 +4,57 @@ export { z } from 'zod';
 // Unified logger with Pino + CloudWatch metrics
 export { createLogger } from './logger';
 
+// Validated environment configuration and cached secrets
+export * from './config';
+export * from './secrets';
+
 // Common types
 export * from './types';
 
-// JWT utilities
+// HTTP errors and RFC 9457 problem details
+export * from './errors';
+export * from './error-mapping';
+
+// JWT utilities, in-process JWT verification and route authorization guards
 export * from './jwt-utils';
+export * from './jwt-verification';
+export * from './authorization';
 
 // Response helpers
 export * from './responses';
 
-// Router and routing
+// Router, routing and middleware pipeline
 export * from './router';
+export * from './timeout';
+export * from './versioning';
 export * from './routing';
+export * from './route-trie';
+export * from './middleware';
+
+// SQS, EventBridge, DynamoDB Streams and scheduled event dispatcher
+export * from './events';
+
+// CORS policy
+export * from './cors';
+
+// Response compression and HTTP caching
+export * from './compression';
+export * from './http-cache';
+
+// Body parsers, response serializers and content negotiation
+export * from './content-types';
+
+// Idempotency keys for mutating routes
+export * from './idempotency';
+
+// Token-bucket rate limiting
+export * from './rate-limit';
+
+// Cursor-based pagination
+export * from './pagination';
+
+// OpenAPI document generation
+export * from './openapi';
 
 // AWS Client singletons
 export * from './clients/aws-clients';
@@ -1,41 +1,315 @@
-import { APIGatewayProxyEventV2WithJWTAuthorizer, JWTClaims, HttpError } from './types';
+import { z } from 'zod';
+import { APIGatewayProxyEventV2WithJWTAuthorizer, JWTClaims } from './types';
+import { toFieldErrors, UnauthorizedError } from './errors';
 
-export const getJWTClaims = (event: APIGatewayProxyEventV2WithJWTAuthorizer): JWTClaims | null => {
+// Only the request context is read, so raw, parsed and typed route events are all accepted
+export type AuthorizedEvent = Pick<APIGatewayProxyEventV2WithJWTAuthorizer, 'requestContext'>;
+
+export const getJWTClaims = (event: AuthorizedEvent): JWTClaims | null => {
   return event.requestContext.authorizer?.jwt?.claims || null;
 };
 
 export const getJWTClaim = (
-  event: APIGatewayProxyEventV2WithJWTAuthorizer,
+  event: AuthorizedEvent,
   claimName: string
 ): string | number | boolean | undefined => {
   const claims = getJWTClaims(event);
   return claims?.[claimName];
 };
 
-export const getUserId = (event: APIGatewayProxyEventV2WithJWTAuthorizer): string | undefined => {
+export const getUserId = (event: AuthorizedEvent): string | undefined => {
   const sub = getJWTClaim(event, 'sub');
   return typeof sub === 'string' ? sub : undefined;
 };
 
-export const getUserEmail = (
-  event: APIGatewayProxyEventV2WithJWTAuthorizer
-): string | undefined => {
+export const getUserEmail = (event: AuthorizedEvent): string | undefined => {
   const email = getJWTClaim(event, 'email');
   return typeof email === 'string' ? email : undefined;
 };
 
-export const requireJWTClaims = (event: APIGatewayProxyEventV2WithJWTAuthorizer): JWTClaims => {
+export const requireJWTClaims = (event: AuthorizedEvent): JWTClaims => {
   const claims = getJWTClaims(event);
   if (!claims) {
-    throw new HttpError(401, 'JWT claims not found in request context');
+    throw new UnauthorizedError('JWT claims not found in request context');
   }
   return claims;
 };
 
-export const requireUserId = (event: APIGatewayProxyEventV2WithJWTAuthorizer): string => {
+export const requireUserId = (event: AuthorizedEvent): string => {
   const userId = getUserId(event);
   if (!userId) {
-    throw new HttpError(401, 'User ID (sub claim) not found in JWT');
+    throw new UnauthorizedError('User ID (sub claim) not found in JWT');
   }
   return userId;
 };
+
+// API Gateway flattens array claims into strings such as "[admin support]"
+const toClaimList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value !== 'string') return [];
+
+  const list = value.startsWith('[') && value.endsWith(']') ? value.slice(1, -1) : value;
+  return list.split(/[\s,]+/).filter(Boolean);
+};
+
+/**
+ * OAuth scopes from the access token `scope` claim and the authorizer's scope list
+ */
+export const getScopes = (event: AuthorizedEvent): string[] => {
+  const jwt = event.requestContext.authorizer?.jwt;
+  return [...new Set([...toClaimList(jwt?.claims?.scope), ...(jwt?.scopes || [])])];
+};
+
+/**
+ * Cognito user pool groups from the `cognito:groups` claim
+ */
+export const getGroups = (event: AuthorizedEvent): string[] =>
+  toClaimList(getJWTClaim(event, 'cognito:groups'));
+
+const claimList = z.preprocess(toClaimList, z.array(z.string()));
+// API Gateway passes numeric claims as strings
+const epochSeconds = z.coerce.number().int();
+
+const commonClaims = {
+  sub: z.string().min(1),
+  iss: z.string().optional(),
+  exp: epochSeconds.optional(),
+  iat: epochSeconds.optional(),
+  auth_time: epochSeconds.optional(),
+  jti: z.string().optional(),
+  origin_jti: z.string().optional(),
+  'cognito:groups': claimList,
+};
+
+/**
+ * Cognito access token: scopes and the app client, but no user attributes
+ */
+export const AccessTokenClaimsSchema = z.looseObject({
+  ...commonClaims,
+  token_use: z.literal('access'),
+  client_id: z.string().min(1),
+  username: z.string().optional(),
+  scope: claimList,
+});
+
+/**
+ * Cognito ID token: user attributes, including `custom:*` ones, for the app client in `aud`
+ */
+export const IdTokenClaimsSchema = z.looseObject({
+  ...commonClaims,
+  token_use: z.literal('id'),
+  aud: z.string().min(1),
+  'cognito:username': z.string().optional(),
+  email: z.string().optional(),
+  email_verified: z.union([z.boolean(), z.stringbool()]).optional(),
+  phone_number: z.string().optional(),
+  name: z.string().optional(),
+  given_name: z.string().optional(),
+  family_name: z.string().optional(),
+});
+
+export const CognitoClaimsSchema = z.discriminatedUnion('token_use', [
+  AccessTokenClaimsSchema,
+  IdTokenClaimsSchema,
+]);
+
+export type AccessTokenClaims = z.output<typeof AccessTokenClaimsSchema>;
+export type IdTokenClaims = z.output<typeof IdTokenClaimsSchema>;
+export type CognitoClaims = AccessTokenClaims | IdTokenClaims;
+
+/**
+ * Validate raw authorizer claims as a Cognito access or ID token (401 when they are not)
+ */
+export const parseJWTClaims = (claims: JWTClaims): CognitoClaims => {
+  const result = CognitoClaimsSchema.safeParse(claims);
+  if (!result.success) {
+    throw new UnauthorizedError('Invalid JWT claims', toFieldErrors(result.error.issues));
+  }
+  return result.data;
+};
+
+// Parsed claims per authorizer claims object, so repeated lookups in one request parse once
+const parsedClaims = new WeakMap<JWTClaims, CognitoClaims>();
+
+/**
+ * Typed claims of the request's token, or undefined for unauthenticated requests
+ */
+export const getCognitoClaims = (event: AuthorizedEvent): CognitoClaims | undefined => {
+  const claims = getJWTClaims(event);
+  if (!claims) return undefined;
+
+  let parsed = parsedClaims.get(claims);
+  if (!parsed) {
+    parsed = parseJWTClaims(claims);
+    parsedClaims.set(claims, parsed);
+  }
+  return parsed;
+};
+
+/**
+ * Context returned by the partner API key Lambda authorizer (`authorizer.lambda`)
+ */
+export const ApiKeyAuthorizerContextSchema = z.looseObject({
+  partnerId: z.string().min(1),
+  apiKeyId: z.string().optional(),
+  scopes: claimList,
+});
+
+export type ApiKeyAuthorizerContext = z.output<typeof ApiKeyAuthorizerContextSchema>;
+
+interface BasePrincipal {
+  /** Stable caller ID: the user `sub`, partner ID or IAM user/role ARN */
+  id: string;
+  groups: string[];
+  scopes: string[];
+  /** Extra caller attributes (`custom:*` user attributes, authorizer context values) */
+  attributes: Record<string, string>;
+}
+
+/**
+ * Cognito user, normalized across access and ID tokens
+ */
+export interface UserPrincipal extends BasePrincipal {
+  type: 'user';
+  tokenUse: CognitoClaims['token_use'];
+  /** App client the token was issued to (`client_id` or `aud`) */
+  clientId: string;
+  username?: string;
+  /** Only present on ID tokens */
+  email?: string;
+  emailVerified?: boolean;
+  claims: CognitoClaims;
+}
+
+/**
+ * Partner authenticated by the API key Lambda authorizer
+ */
+export interface ApiKeyPrincipal extends BasePrincipal {
+  type: 'apiKey';
+  apiKeyId?: string;
+  context: ApiKeyAuthorizerContext;
+}
+
+/**
+ * AWS service or role calling with SigV4 (IAM authorization)
+ */
+export interface IamPrincipal extends BasePrincipal {
+  type: 'iam';
+  accountId: string;
+  /** e.g. `arn:aws:sts::123456789012:assumed-role/orders-service/session` */
+  userArn: string;
+  callerId: string;
+  accessKey: string;
+  principalOrgId?: string;
+}
+
+/**
+ * The authenticated caller, whichever authorizer admitted the request
+ */
+export type Principal = UserPrincipal | ApiKeyPrincipal | IamPrincipal;
+
+export type PrincipalType = Principal['type'];
+
+const customAttributes = (claims: CognitoClaims): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(claims)
+      .filter(([key]) => key.startsWith('custom:'))
+      .map(([key, value]) => [key.slice('custom:'.length), String(value)])
+  );
+
+const userPrincipal = (event: AuthorizedEvent, claims: CognitoClaims): UserPrincipal => {
+  const common = {
+    type: 'user' as const,
+    id: claims.sub,
+    groups: claims['cognito:groups'],
+    scopes: getScopes(event),
+    attributes: customAttributes(claims),
+    claims,
+  };
+
+  return claims.token_use === 'access'
+    ? { ...common, tokenUse: 'access', clientId: claims.client_id, username: claims.username }
+    : {
+        ...common,
+        tokenUse: 'id',
+        clientId: claims.aud,
+        username: claims['cognito:username'],
+        email: claims.email,
+        emailVerified: claims.email_verified,
+      };
+};
+
+const apiKeyPrincipal = (lambda: Record<string, unknown>): ApiKeyPrincipal => {
+  const result = ApiKeyAuthorizerContextSchema.safeParse(lambda);
+  if (!result.success) {
+    throw new UnauthorizedError('Invalid authorizer context', toFieldErrors(result.error.issues));
+  }
+
+  const { partnerId, apiKeyId, scopes, ...rest } = result.data;
+  return {
+    type: 'apiKey',
+    id: partnerId,
+    apiKeyId,
+    groups: [],
+    scopes,
+    attributes: Object.fromEntries(
+      Object.entries(rest).map(([key, value]) => [
+        key,
+        typeof value === 'string' ? value : JSON.stringify(value),
+      ])
+    ),
+    context: result.data,
+  };
+};
+
+const iamPrincipal = (
+  iam: NonNullable<NonNullable<AuthorizedEvent['requestContext']['authorizer']>['iam']>
+): IamPrincipal => ({
+  type: 'iam',
+  id: iam.userArn,
+  accountId: iam.accountId,
+  userArn: iam.userArn,
+  callerId: iam.callerId,
+  accessKey: iam.accessKey,
+  principalOrgId: iam.principalOrgId,
+  groups: [],
+  scopes: [],
+  attributes: {},
+});
+
+/**
+ * Normalized principal from the JWT, Lambda (API key) or IAM authorizer, or undefined for
+ * unauthenticated requests. Malformed JWT claims or authorizer context are rejected with 401.
+ */
+export const getPrincipal = (event: AuthorizedEvent): Principal | undefined => {
+  const authorizer = event.requestContext.authorizer;
+
+  const claims = getCognitoClaims(event);
+  if (claims) return userPrincipal(event, claims);
+  if (authorizer?.lambda) return apiKeyPrincipal(authorizer.lambda);
+  if (authorizer?.iam) return iamPrincipal(authorizer.iam);
+  return undefined;
+};
+
+export const requirePrincipal = (event: AuthorizedEvent): Principal => {
+  const principal = getPrincipal(event);
+  if (!principal) {
+    throw new UnauthorizedError('Authentication required');
+  }
+  return principal;
+};
+
+/**
+ * Key identifying the caller for rate limits, idempotency and logs without validating claims:
+ * the JWT `sub` for users, `apiKey:{partnerId}` or `iam:{userArn}` otherwise
+ */
+export const getCallerId = (event: AuthorizedEvent): string | undefined => {
+  const authorizer = event.requestContext.authorizer;
+  const partnerId = authorizer?.lambda?.partnerId;
+
+  return (
+    getUserId(event) ??
+    (typeof partnerId === 'string' && partnerId ? `apiKey:${partnerId}` : undefined) ??
+    (authorizer?.iam?.userArn ? `iam:${authorizer.iam.userArn}` : undefined)
+  );
+};
@@ -0,0 +1,276 @@
+import { createPublicKey, JsonWebKey, KeyObject, verify } from 'crypto';
+import { getHeader } from './content-types';
+import { UnauthorizedError } from './errors';
+import { createLogger } from './logger';
+import type { JWTClaims, Middleware } from './types';
+
+export const DEFAULT_JWKS_TTL_SECONDS = 60 * 60;
+// Unknown key IDs trigger a JWKS refresh (key rotation) at most this often
+export const DEFAULT_JWKS_REFRESH_COOLDOWN_SECONDS = 60;
+const JWKS_FETCH_TIMEOUT_MS = 3000;
+
+const logger = createLogger('jwt-verification');
+
+/**
+ * Resolve the public key for a token's `kid` (undefined when the key is unknown)
+ */
+export type JwtKeySource = (kid: string, signal?: AbortSignal) => Promise<KeyObject | undefined>;
+
+export interface JwtVerifierOptions {
+  /** Expected `iss`, e.g. `https://cognito-idp.{region}.amazonaws.com/{userPoolId}` */
+  issuer: string;
+  /** App client IDs accepted in `aud` (ID tokens) or `client_id` (access tokens) */
+  audience: string | string[];
+  /** Accepted `token_use` values (default: access and ID tokens) */
+  tokenUse?: ('access' | 'id')[];
+  /** Signing keys (default: the issuer's `/.well-known/jwks.json`) */
+  keySource?: JwtKeySource;
+  /** Allowed clock skew for `exp`/`nbf` checks (default: 0) */
+  clockToleranceSeconds?: number;
+}
+
+export interface JwtVerifier {
+  /** Verify a compact JWS and return its claims; throws `UnauthorizedError` when invalid */
+  verify: (token: string, signal?: AbortSignal) => Promise<Record<string, unknown>>;
+}
+
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+const decodeSegment = (segment: string): Record<string, any> => {
+  try {
+    const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) return value;
+  } catch {
+    // Fall through to the error below
+  }
+  throw new UnauthorizedError('Malformed token');
+};
+
+const verifySignature = (signed: string, signature: string, key: KeyObject): boolean => {
+  try {
+    return verify('RSA-SHA256', Buffer.from(signed), key, Buffer.from(signature, 'base64url'));
+  } catch {
+    // Keys of the wrong type cannot have signed the token
+    return false;
+  }
+};
+
+const toKeyObject = (jwk: JsonWebKey): KeyObject => createPublicKey({ key: jwk, format: 'jwk' });
+
+/**
+ * Keys held in memory, for tests and local development with a generated key pair
+ */
+export const createStaticKeySource = (
+  keys: Record<string, KeyObject | JsonWebKey>
+): JwtKeySource => {
+  const keyObjects = new Map(
+    Object.entries(keys).map(([kid, key]) => [
+      kid,
+      key instanceof KeyObject ? key : toKeyObject(key),
+    ])
+  );
+  return async kid => keyObjects.get(kid);
+};
+
+/**
+ * Keys from a JWKS endpoint, cached per container for `ttlSeconds`. An unknown `kid` refetches
+ * the set (at most once per `refreshCooldownSeconds`) so rotated keys are picked up.
+ */
+export const createJwksKeySource = ({
+  jwksUri,
+  ttlSeconds = DEFAULT_JWKS_TTL_SECONDS,
+  refreshCooldownSeconds = DEFAULT_JWKS_REFRESH_COOLDOWN_SECONDS,
+}: {
+  jwksUri: string;
+  ttlSeconds?: number;
+  refreshCooldownSeconds?: number;
+}): JwtKeySource => {
+  let keys = new Map<string, KeyObject>();
+  let fetchedAt = 0;
+  let pending: Promise<void> | undefined;
+
+  const refresh = (signal?: AbortSignal) =>
+    (pending ??= (async () => {
+      try {
+        const timeout = AbortSignal.timeout(JWKS_FETCH_TIMEOUT_MS);
+        const response = await fetch(jwksUri, {
+          signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+        });
+        if (!response.ok) {
+          throw new Error(`JWKS request failed with status ${response.status}`);
+        }
+
+        const { keys: jwks = [] } = (await response.json()) as { keys?: JsonWebKey[] };
+        keys = new Map(
+          jwks
+            .filter(jwk => typeof jwk.kid === 'string' && jwk.kty === 'RSA')
+            .map(jwk => [jwk.kid as string, toKeyObject(jwk)])
+        );
+        fetchedAt = Date.now();
+      } finally {
+        pending = undefined;
+      }
+    })());
+
+  return async (kid, signal) => {
+    const age = Date.now() - fetchedAt;
+    const stale = age >= ttlSeconds * 1000;
+    const missing = !keys.has(kid) && age >= refreshCooldownSeconds * 1000;
+
+    if (stale || missing) {
+      try {
+        await refresh(signal);
+      } catch (error) {
+        // Keep verifying with the cached keys if the endpoint is briefly unavailable
+        if (keys.size === 0) throw error;
+        logger.warn('Failed to refresh JWKS, using cached keys', {
+          jwksUri,
+          error: (error as Error).message,
+        });
+      }
+    }
+    return keys.get(kid);
+  };
+};
+
+/**
+ * Issuer URL of a Cognito user pool (the region is taken from the pool ID)
+ */
+export const cognitoIssuer = (userPoolId: string, region = userPoolId.split('_')[0]): string =>
+  `https://cognito-idp.${region}.amazonaws.com/${userPoolId}`;
+
+/**
+ * Verify RS256-signed JWTs: signature, `iss`, audience (`aud` or `client_id`), `token_use`,
+ * `exp` and `nbf`.
+ */
+export const createJwtVerifier = ({
+  issuer,
+  audience,
+  tokenUse = ['access', 'id'],
+  keySource = createJwksKeySource({ jwksUri: `${issuer}/.well-known/jwks.json` }),
+  clockToleranceSeconds = 0,
+}: JwtVerifierOptions): JwtVerifier => {
+  const audiences = Array.isArray(audience) ? audience : [audience];
+
+  return {
+    verify: async (token, signal) => {
+      const segments = token.split('.');
+      if (segments.length !== 3) throw new UnauthorizedError('Malformed token');
+
+      const [encodedHeader, encodedPayload, signature] = segments;
+      const header = decodeSegment(encodedHeader);
+      const claims = decodeSegment(encodedPayload);
+
+      // Pin the algorithm so `none` or HMAC-with-public-key tokens are never accepted
+      if (header.alg !== 'RS256' || typeof header.kid !== 'string') {
+        throw new UnauthorizedError('Unsupported token algorithm');
+      }
+
+      const key = await keySource(header.kid, signal);
+      if (!key) throw new UnauthorizedError('Unknown token signing key');
+
+      if (!verifySignature(`${encodedHeader}.${encodedPayload}`, signature, key)) {
+        throw new UnauthorizedError('Invalid token signature');
+      }
+
+      if (claims.iss !== issuer) throw new UnauthorizedError('Invalid token issuer');
+      if (!tokenUse.includes(claims.token_use)) {
+        throw new UnauthorizedError('Invalid token use');
+      }
+
+      const tokenAudience = claims.token_use === 'access' ? claims.client_id : claims.aud;
+      const tokenAudiences: unknown[] = Array.isArray(tokenAudience)
+        ? tokenAudience
+        : [tokenAudience];
+      if (!tokenAudiences.some(value => audiences.includes(value as string))) {
+        throw new UnauthorizedError('Invalid token audience');
+      }
+
+      const now = nowInSeconds();
+      if (typeof claims.exp !== 'number' || claims.exp + clockToleranceSeconds <= now) {
+        throw new UnauthorizedError('Token expired');
+      }
+      if (typeof claims.nbf === 'number' && claims.nbf - clockToleranceSeconds > now) {
+        throw new UnauthorizedError('Token not yet valid');
+      }
+
+      return claims;
+    },
+  };
+};
+
+/**
+ * Verifier for tokens issued by a Cognito user pool to the given app clients
+ */
+export const createCognitoJwtVerifier = ({
+  userPoolId,
+  clientId,
+  ...options
+}: Omit<JwtVerifierOptions, 'issuer' | 'audience'> & {
+  userPoolId: string;
+  clientId: string | string[];
+}): JwtVerifier =>
+  createJwtVerifier({ issuer: cognitoIssuer(userPoolId), audience: clientId, ...options });
+
+// Claims shaped the way the API Gateway JWT authorizer passes them (arrays as "[a b]")
+const toAuthorizerClaims = (claims: Record<string, unknown>): JWTClaims =>
+  Object.fromEntries(
+    Object.entries(claims).map(([name, value]) => [
+      name,
+      Array.isArray(value)
+        ? `[${value.join(' ')}]`
+        : typeof value === 'object' && value !== null
+          ? JSON.stringify(value)
+          : (value as string | number | boolean),
+    ])
+  );
+
+export interface JwtAuthenticationOptions {
+  verifier: JwtVerifier;
+  /** Reject requests that carry neither authorizer claims nor a bearer token (default: false) */
+  required?: boolean;
+}
+
+/**
+ * Verify the `Authorization: Bearer` token in-process when API Gateway has not already done so
+ * (function URLs, direct invocation, local development) and expose its claims exactly like the
+ * JWT authorizer would, so `getJWTClaims`, `getPrincipal` and route guards work unchanged.
+ * Invalid tokens are rejected with 401.
+ */
+export const jwtAuthentication = ({
+  verifier,
+  required = false,
+}: JwtAuthenticationOptions): Middleware => ({
+  name: 'jwtAuthentication',
+  before: async ({ event, signal }) => {
+    // Requests already admitted by an API Gateway authorizer are left as they are
+    const { authorizer } = event.requestContext;
+    if (authorizer?.jwt || authorizer?.lambda || authorizer?.iam) return;
+
+    const authorization = getHeader(event.headers, 'authorization');
+    const token = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    if (!token) {
+      if (required) throw new UnauthorizedError('Authentication required');
+      return;
+    }
+
+    let claims: Record<string, unknown>;
+    try {
+      claims = await verifier.verify(token, signal);
+    } catch (error) {
+      logger.warn('JWT verification failed', {
+        requestId: event.requestContext.requestId,
+        error: (error as Error).message,
+      });
+      throw error;
+    }
+
+    event.requestContext.authorizer = {
+      ...event.requestContext.authorizer,
+      jwt: {
+        claims: toAuthorizerClaims(claims),
+        scopes: typeof claims.scope === 'string' ? claims.scope.split(' ') : null,
+      },
+    };
+  },
+});
@@ -0,0 +1,413 @@
+import { createLogger } from './logger';
+import { APIGatewayProxyResultV2 } from 'aws-lambda';
+import { ZodType } from 'zod';
+import { createErrorResponse, Middleware, MiddlewareRequest } from './types';
+import { InternalServerError, NotAcceptableError, toFieldErrors } from './errors';
+import { toHttpError } from './error-mapping';
+import { parseBody, ParseBodyOptions, validateSchema } from './routing';
+import {
+  appendVary,
+  getHeader,
+  negotiateMediaType,
+  ResponseSerializer,
+  responseSerializers,
+  serializeBody,
+} from './content-types';
+import { assertCorsOptions, CorsOptions, withCorsHeaders } from './cors';
+import {
+  compressBody,
+  CompressionOptions,
+  DEFAULT_COMPRESSION_THRESHOLD,
+  negotiateEncoding,
+} from './compression';
+import { computeETag, matchesIfNoneMatch, REPRESENTATION_HEADERS } from './http-cache';
+import { ACCEPT_VERSION_HEADER, deprecationHeaders } from './versioning';
+import { authorizeRequest } from './authorization';
+
+const logger = createLogger('middleware');
+
+const isLoggingEnabled = () => process.env.ENABLE_REQUEST_LOGGING !== 'false';
+
+const isProduction = () =>
+  ['prod', 'production'].includes(process.env.ENVIRONMENT || process.env.NODE_ENV || '');
+
+const logResponse = (request: MiddlewareRequest) => {
+  if (!isLoggingEnabled() || !request.response) return;
+
+  const response = request.response;
+  const statusCode =
+    typeof response === 'object' && 'statusCode' in response ? response.statusCode : 200;
+
+  const logData = {
+    requestId: request.event.requestContext.requestId,
+    statusCode,
+    duration: `${Date.now() - request.startTime}ms`,
+  };
+
+  const logLevel =
+    statusCode && statusCode >= 500 ? 'error' : statusCode && statusCode >= 400 ? 'warn' : 'info';
+
+  logger[logLevel]('Request completed', logData);
+};
+
+/**
+ * Logs incoming requests and completed responses (built-in, outermost)
+ */
+export const requestLogger = (): Middleware => ({
+  name: 'requestLogger',
+  before: ({ event, context }) => {
+    if (!isLoggingEnabled()) return;
+
+    logger.addContext(context);
+
+    const userId = event.requestContext.authorizer?.jwt?.claims?.sub;
+    logger.info('Incoming request', {
+      requestId: event.requestContext.requestId,
+      method: event.requestContext.http.method,
+      path: event.requestContext.http.path,
+      userId: typeof userId === 'string' ? userId : undefined,
+    });
+  },
+  after: logResponse,
+  onError: logResponse,
+});
+
+/**
+ * Converts unhandled errors into HTTP error responses, mapping AWS SDK exceptions
+ * to their HTTP status (built-in)
+ */
+export const errorHandler = (): Middleware => ({
+  name: 'errorHandler',
+  onError: request =>
+    request.response ?? createErrorResponse(toHttpError(request.error), request.event),
+});
+
+/**
+ * Adds CORS headers to success, error and preflight responses (built-in, outermost
+ * when the router has a `cors` policy)
+ */
+export const cors = (options: CorsOptions): Middleware => {
+  assertCorsOptions(options);
+
+  return {
+    name: 'cors',
+    after: ({ event, response }) => response && withCorsHeaders(event, response, options),
+    onError: ({ event, response }) => response && withCorsHeaders(event, response, options),
+  };
+};
+
+/**
+ * Compresses response bodies over the size threshold with the best `Accept-Encoding`
+ * coding (brotli or gzip), returning them base64-encoded (built-in)
+ */
+export const compression = (options: CompressionOptions = {}): Middleware => ({
+  name: 'compression',
+  after: async ({ event, response }) => {
+    if (typeof response !== 'object' || !response.body || response.headers?.['Content-Encoding']) {
+      return;
+    }
+
+    const body = Buffer.from(response.body, response.isBase64Encoded ? 'base64' : 'utf-8');
+    if (body.length < (options.threshold ?? DEFAULT_COMPRESSION_THRESHOLD)) return;
+
+    const headers = {
+      ...response.headers,
+      Vary: appendVary(response.headers?.Vary, 'Accept-Encoding'),
+    };
+    const encoding = negotiateEncoding(
+      getHeader(event.headers, 'accept-encoding'),
+      options.encodings
+    );
+    if (!encoding) return { ...response, headers };
+
+    const compressed = await compressBody(body, encoding);
+    return {
+      ...response,
+      headers: { ...headers, 'Content-Encoding': encoding },
+      body: compressed.toString('base64'),
+      isBase64Encoded: true,
+    };
+  },
+});
+
+/**
+ * Adds the route's `Cache-Control` policy and a strong ETag to successful GET/HEAD
+ * route responses, answering a matching `If-None-Match` with 304 Not Modified (built-in).
+ * Runs outside compression so each content coding gets its own ETag.
+ */
+export const httpCache = ({ etag = true }: { etag?: boolean } = {}): Middleware => ({
+  name: 'httpCache',
+  after: ({ event, route, response }) => {
+    const method = event.requestContext.http.method.toUpperCase();
+    if (
+      !route ||
+      typeof response !== 'object' ||
+      (response.statusCode ?? 200) !== 200 ||
+      !['GET', 'HEAD'].includes(method)
+    ) {
+      return;
+    }
+
+    const headers = { ...response.headers };
+    if (route.cacheControl && headers['Cache-Control'] === undefined) {
+      headers['Cache-Control'] = route.cacheControl;
+    }
+    if (etag && headers.ETag === undefined && response.body) {
+      headers.ETag = computeETag(response.body);
+    }
+
+    if (
+      headers.ETag !== undefined &&
+      matchesIfNoneMatch(getHeader(event.headers, 'if-none-match'), String(headers.ETag))
+    ) {
+      return {
+        statusCode: 304,
+        headers: Object.fromEntries(
+          Object.entries(headers).filter(
+            ([name]) => !REPRESENTATION_HEADERS.includes(name.toLowerCase())
+          )
+        ),
+        body: '',
+      };
+    }
+
+    return { ...response, headers };
+  },
+});
+
+/**
+ * Adds `Vary: Accept-Version` to header-negotiated versions and `Deprecation`, `Sunset`
+ * and `Link` headers to deprecated routes, on success and error responses (built-in)
+ */
+export const routeVersioning = (): Middleware => {
+  const needsVersionHeaders = ({ route, internal }: MiddlewareRequest) =>
+    !!route && (!!route.deprecation || !!internal.versionNegotiated);
+
+  const withVersionHeaders = (request: MiddlewareRequest) => {
+    const { route, internal, response } = request;
+    if (!route || typeof response !== 'object' || !needsVersionHeaders(request)) return;
+
+    const headers = { ...response.headers };
+    if (internal.versionNegotiated) {
+      headers.Vary = appendVary(headers.Vary, ACCEPT_VERSION_HEADER);
+    }
+    if (route.deprecation) {
+      const { Link, ...deprecation } = deprecationHeaders(route.deprecation);
+      Object.assign(headers, deprecation);
+      if (Link) headers.Link = headers.Link ? `${headers.Link}, ${Link}` : Link;
+    }
+
+    return { ...response, headers };
+  };
+
+  return {
+    name: 'routeVersioning',
+    after: withVersionHeaders,
+    // Route middlewares run inside errorHandler, so build the error response here, but only
+    // when it needs version headers (otherwise errorHandler builds and logs it once)
+    onError: request => {
+      if (!needsVersionHeaders(request)) return;
+
+      return withVersionHeaders({
+        ...request,
+        response:
+          request.response ?? createErrorResponse(toHttpError(request.error), request.event),
+      });
+    },
+  };
+};
+
+/**
+ * Parses the request body by `content-type` once the request has been authorized and passed
+ * the route middlewares (built-in)
+ */
+export const bodyParser = (options: ParseBodyOptions = {}): Middleware => ({
+  name: 'bodyParser',
+  before: ({ event, parsedEvent }) => {
+    if (!parsedEvent) return;
+
+    parsedEvent.body = parseBody(event, options);
+  },
+});
+
+/**
+ * Validates body, query and path parameters against the matched route schema (built-in, innermost)
+ */
+export const validator = (): Middleware => ({
+  name: 'validator',
+  before: ({ route, parsedEvent }) => {
+    const schema = route?.schema;
+    if (!schema || !parsedEvent) return;
+
+    if (schema.body) {
+      parsedEvent.body = validateSchema(parsedEvent.body, schema.body, 'body');
+    }
+    if (schema.query) {
+      parsedEvent.queryStringParameters = validateSchema(
+        parsedEvent.queryStringParameters,
+        schema.query,
+        'query parameters'
+      );
+    }
+    if (schema.path) {
+      parsedEvent.pathParameters = validateSchema(
+        parsedEvent.pathParameters,
+        schema.path,
+        'path parameters'
+      );
+    }
+  },
+});
+
+/**
+ * Evaluates the route's `authorize` guards before the body is parsed or validated, so
+ * anonymous callers get 401 and denied ones 403 whatever they send. Path parameters are
+ * validated first for guards that load resources. Decisions are audit-logged.
+ */
+export const authorization = (): Middleware => ({
+  name: 'authorization',
+  before: async ({ route, parsedEvent, context, signal }) => {
+    if (!route?.authorize?.length || !parsedEvent) return;
+
+    await authorizeRequest(route, { event: parsedEvent, context, signal });
+  },
+});
+
+/**
+ * Validates and serializes successful responses against the route's response schema.
+ * Unknown fields are stripped; invalid payloads fail closed with a 500
+ * (including the validation issues outside production).
+ */
+export const responseValidator = (): Middleware => ({
+  name: 'responseValidator',
+  after: ({ route, response }) => {
+    const responseSchema = route?.schema?.response;
+    if (!responseSchema || typeof response !== 'object' || response.isBase64Encoded) return;
+
+    const statusCode = response.statusCode ?? 200;
+    const schema = responseSchema instanceof ZodType ? responseSchema : responseSchema[statusCode];
+    if (!schema) return;
+
+    let payload: unknown = response.body;
+    try {
+      payload = response.body ? JSON.parse(response.body) : undefined;
+    } catch {
+      // Non-JSON bodies are validated as raw strings
+    }
+
+    const result = schema.safeParse(payload);
+    if (!result.success) {
+      logger.error('Response validation failed', { statusCode, issues: result.error.issues });
+      throw isProduction()
+        ? new InternalServerError()
+        : new InternalServerError('Response validation failed', toFieldErrors(result.error.issues));
+    }
+
+    return {
+      ...response,
+      body: typeof result.data === 'string' ? result.data : JSON.stringify(result.data),
+    };
+  },
+});
+
+/**
+ * Negotiates the response media type from the `Accept` header (406 when none is supported)
+ * and re-serializes JSON handler responses into it. Runs outside response validation so
+ * the validated payload is what gets serialized.
+ */
+export const contentNegotiation = (
+  serializers: Record<string, ResponseSerializer> = responseSerializers
+): Middleware => ({
+  name: 'contentNegotiation',
+  before: ({ event, internal }) => {
+    const mediaType = negotiateMediaType(
+      getHeader(event.headers, 'accept'),
+      Object.keys(serializers)
+    );
+    if (!mediaType) {
+      throw new NotAcceptableError('Not acceptable', { supported: Object.keys(serializers) });
+    }
+    internal.mediaType = mediaType;
+  },
+  after: ({ event, internal, response }) => {
+    const mediaType = internal.mediaType as string;
+    if (typeof response !== 'object' || response.isBase64Encoded || !response.body) return;
+
+    const headers = getHeader(event.headers, 'accept')
+      ? { ...response.headers, Vary: appendVary(response.headers?.Vary, 'Accept') }
+      : response.headers;
+    if (
+      mediaType === 'application/json' ||
+      response.headers?.['Content-Type'] !== 'application/json'
+    ) {
+      return headers === response.headers ? undefined : { ...response, headers };
+    }
+
+    let data: unknown = response.body;
+    try {
+      data = JSON.parse(response.body);
+    } catch {
+      // Plain string bodies are serialized as-is
+    }
+
+    return {
+      ...response,
+      headers: { ...headers, 'Content-Type': mediaType },
+      body: serializeBody(data, mediaType, serializers),
+    };
+  },
+});
+
+/**
+ * Runs `before` hooks in order, recording each entered middleware.
+ * Returns true when a hook short-circuits the chain with a response.
+ */
+export const runBefore = async (
+  middlewares: Middleware[],
+  request: MiddlewareRequest,
+  entered: Middleware[]
+): Promise<boolean> => {
+  for (const middleware of middlewares) {
+    const result = await middleware.before?.(request);
+    if (result) {
+      request.response = result;
+      return true;
+    }
+    entered.push(middleware);
+  }
+  return false;
+};
+
+/**
+ * Runs `after` hooks in reverse order; a returned response replaces the current one
+ */
+export const runAfter = async (
+  middlewares: Middleware[],
+  request: MiddlewareRequest
+): Promise<void> => {
+  for (const middleware of [...middlewares].reverse()) {
+    const result = await middleware.after?.(request);
+    if (result) {
+      request.response = result;
+    }
+  }
+};
+
+/**
+ * Runs `onError` hooks in reverse order; a returned response recovers from the error
+ */
+export const runOnError = async (
+  middlewares: Middleware[],
+  request: MiddlewareRequest
+): Promise<APIGatewayProxyResultV2> => {
+  request.response = undefined;
+
+  for (const middleware of [...middlewares].reverse()) {
+    const result = await middleware.onError?.(request);
+    if (result) {
+      request.response = result;
+    }
+  }
+
+  return request.response ?? createErrorResponse(request.error, request.event);
+};
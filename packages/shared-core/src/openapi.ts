@@ -0,0 +1,227 @@
+import { z, ZodType } from 'zod';
+import { Route } from './types';
+import { PROBLEM_CONTENT_TYPE } from './errors';
+import { greedyParamName, splitPath } from './route-trie';
+import { versionedPath } from './versioning';
+
+type JsonSchema = Record<string, any>;
+
+export interface OpenApiOptions {
+  title: string;
+  version: string;
+  description?: string;
+  servers?: { url: string; description?: string }[];
+  /** Apply the Cognito JWT security scheme to routes unless they are marked public (default: true) */
+  secured?: boolean;
+}
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string; description?: string }[];
+  paths: Record<string, Record<string, JsonSchema>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    securitySchemes: Record<string, JsonSchema>;
+  };
+}
+
+const SECURITY_SCHEME = 'cognitoJwt';
+const ERROR_SCHEMA = 'ProblemDetails';
+
+const toJsonSchema = (schema: ZodType, io: 'input' | 'output'): JsonSchema => {
+  const { $schema: _$schema, ...jsonSchema } = z.toJSONSchema(schema, {
+    io,
+    unrepresentable: 'any',
+  }) as JsonSchema;
+  return jsonSchema;
+};
+
+/**
+ * Convert a route path to an OpenAPI path ("/files/{proxy+}" -> "/files/{proxy}")
+ */
+const toOpenApiPath = (path: string): string =>
+  splitPath(path)
+    .map(segment => {
+      const greedy = greedyParamName(segment);
+      return greedy ? `{${greedy}}` : segment;
+    })
+    .join('/') || '/';
+
+const pathParamNames = (path: string): string[] =>
+  splitPath(path)
+    .filter(segment => segment.startsWith('{') && segment.endsWith('}'))
+    .map(segment => greedyParamName(segment) || segment.slice(1, -1));
+
+const operationId = (route: Route): string =>
+  route.docs?.operationId ||
+  route.method.toLowerCase() +
+    splitPath(versionedPath(route))
+      .filter(Boolean)
+      .map(segment => segment.replace(/[{}+]/g, ''))
+      .map(segment => segment.charAt(0).toUpperCase() + segment.slice(1))
+      .join('')
+      .replace(/[^A-Za-z0-9]/g, '');
+
+const buildParameters = (route: Route): JsonSchema[] => {
+  const parameters: JsonSchema[] = [];
+
+  const pathSchema = route.schema?.path ? toJsonSchema(route.schema.path, 'input') : undefined;
+  for (const name of pathParamNames(route.path)) {
+    parameters.push({
+      name,
+      in: 'path',
+      required: true,
+      schema: pathSchema?.properties?.[name] || { type: 'string' },
+    });
+  }
+
+  if (route.schema?.query) {
+    const querySchema = toJsonSchema(route.schema.query, 'input');
+    const required: string[] = querySchema.required || [];
+    for (const [name, schema] of Object.entries(querySchema.properties || {})) {
+      parameters.push({ name, in: 'query', required: required.includes(name), schema });
+    }
+  }
+
+  return parameters;
+};
+
+const buildResponses = (route: Route): Record<string, JsonSchema> => {
+  const responses: Record<string, JsonSchema> = {};
+  const responseSchema = route.schema?.response;
+
+  if (responseSchema instanceof ZodType) {
+    responses['200'] = {
+      description: 'Successful response',
+      content: { 'application/json': { schema: toJsonSchema(responseSchema, 'output') } },
+    };
+  } else if (responseSchema) {
+    for (const [status, schema] of Object.entries(responseSchema)) {
+      if (!schema) continue;
+      responses[status] = {
+        description: 'Successful response',
+        content: { 'application/json': { schema: toJsonSchema(schema, 'output') } },
+      };
+    }
+  } else {
+    responses['200'] = { description: 'Successful response' };
+  }
+
+  responses.default = {
+    description: 'Error response',
+    content: {
+      [PROBLEM_CONTENT_TYPE]: { schema: { $ref: `#/components/schemas/${ERROR_SCHEMA}` } },
+    },
+  };
+
+  return responses;
+};
+
+/**
+ * Generate an OpenAPI 3.1 document from router definitions
+ */
+export const generateOpenApiDocument = (
+  routes: Route[],
+  options: OpenApiOptions
+): OpenApiDocument => {
+  const { secured = true } = options;
+  const paths: OpenApiDocument['paths'] = {};
+
+  for (const route of routes) {
+    // Versioned routes are documented under their `/v{n}` prefix
+    const path = toOpenApiPath(versionedPath(route));
+    const docs = route.docs || {};
+    const parameters = buildParameters(route);
+
+    const operation: JsonSchema = {
+      operationId: operationId(route),
+      ...(docs.summary && { summary: docs.summary }),
+      ...(docs.description && { description: docs.description }),
+      ...(docs.tags && { tags: docs.tags }),
+      ...((docs.deprecated || route.deprecation) && { deprecated: true }),
+      ...(parameters.length > 0 && { parameters }),
+      ...(route.schema?.body && {
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: toJsonSchema(route.schema.body, 'input') } },
+        },
+      }),
+      responses: buildResponses(route),
+      security: secured && !docs.public ? [{ [SECURITY_SCHEME]: [] }] : [],
+    };
+
+    paths[path] = { ...paths[path], [route.method.toLowerCase()]: operation };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: options.title,
+      version: options.version,
+      ...(options.description && { description: options.description }),
+    },
+    ...(options.servers && { servers: options.servers }),
+    paths,
+    components: {
+      schemas: {
+        [ERROR_SCHEMA]: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', format: 'uri-reference' },
+            title: { type: 'string' },
+            status: { type: 'integer' },
+            detail: { type: 'string' },
+            instance: { type: 'string' },
+            code: { type: 'string' },
+            requestId: { type: 'string' },
+            errors: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  pointer: { type: 'string' },
+                  detail: { type: 'string' },
+                  code: { type: 'string' },
+                },
+                required: ['pointer', 'detail', 'code'],
+              },
+            },
+            details: {},
+            timestamp: { type: 'string', format: 'date-time' },
+          },
+          required: ['type', 'title', 'status', 'detail', 'code', 'timestamp'],
+        },
+      },
+      securitySchemes: {
+        [SECURITY_SCHEME]: {
+          type: 'http',
+          scheme: 'bearer',
+          bearerFormat: 'JWT',
+          description: 'Cognito access token validated by the API Gateway JWT authorizer',
+        },
+      },
+    },
+  };
+};
+
+/**
+ * Route serving the generated OpenAPI document (built once, on first request)
+ */
+export const openApiRoute = (
+  routes: Route[],
+  options: OpenApiOptions,
+  path: string = '/openapi.json'
+): Route => {
+  let document: OpenApiDocument | undefined;
+
+  return {
+    method: 'GET',
+    path,
+    docs: { public: true, summary: 'OpenAPI document' },
+    handler: () => {
+      document = document || generateOpenApiDocument(routes, options);
+      return document;
+    },
+  };
+};
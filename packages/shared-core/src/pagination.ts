@@ -0,0 +1,135 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { z, ZodType } from 'zod';
+import { BadRequestError } from './errors';
+
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 100;
+
+export type PageKey = Record<string, unknown>;
+
+export interface CursorCodecOptions {
+  /** HMAC-SHA256 signing secret */
+  secret: string;
+  /** Cursor lifetime in seconds (default: no expiry) */
+  ttlSeconds?: number;
+}
+
+export interface CursorCodec {
+  /** Encode a DynamoDB `LastEvaluatedKey` into an opaque signed cursor */
+  encode: (key: PageKey, scope?: string) => string;
+  /** Verify and decode a cursor back into an `ExclusiveStartKey` (400 when invalid) */
+  decode: (cursor: string, scope?: string) => PageKey;
+}
+
+interface CursorPayload {
+  k: PageKey;
+  s?: string;
+  e?: number;
+}
+
+/**
+ * Create a codec for opaque, tamper-proof pagination cursors.
+ * Cursors can be bound to a `scope` (e.g. the user ID) so they only work for the
+ * listing that issued them.
+ */
+export const createCursorCodec = ({ secret, ttlSeconds }: CursorCodecOptions): CursorCodec => {
+  if (!secret) {
+    throw new Error('Cursor signing secret is required');
+  }
+
+  const sign = (payload: string) => createHmac('sha256', secret).update(payload).digest();
+
+  const invalid = () => new BadRequestError('Invalid pagination cursor');
+
+  return {
+    encode: (key, scope) => {
+      const payload: CursorPayload = {
+        k: key,
+        ...(scope !== undefined && { s: scope }),
+        ...(ttlSeconds && { e: Math.floor(Date.now() / 1000) + ttlSeconds }),
+      };
+      const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+      return `${encoded}.${sign(encoded).toString('base64url')}`;
+    },
+
+    decode: (cursor, scope) => {
+      const [encoded, signature, ...rest] = cursor.split('.');
+      if (!encoded || !signature || rest.length > 0) throw invalid();
+
+      const expected = sign(encoded);
+      const actual = Buffer.from(signature, 'base64url');
+      if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+        throw invalid();
+      }
+
+      let payload: CursorPayload;
+      try {
+        payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8'));
+      } catch {
+        throw invalid();
+      }
+
+      if (payload.s !== scope || !payload.k || typeof payload.k !== 'object') throw invalid();
+      if (payload.e !== undefined && payload.e < Date.now() / 1000) {
+        throw new BadRequestError('Pagination cursor has expired');
+      }
+
+      return payload.k;
+    },
+  };
+};
+
+/**
+ * Standard `?limit=&cursor=` query parameters
+ */
+export const paginationQuerySchema = ({
+  defaultLimit = DEFAULT_PAGE_LIMIT,
+  maxLimit = MAX_PAGE_LIMIT,
+}: { defaultLimit?: number; maxLimit?: number } = {}) =>
+  z.object({
+    limit: z.coerce.number().int().min(1).max(maxLimit).default(defaultLimit),
+    cursor: z.string().min(1).optional(),
+  });
+
+export const PaginationQuerySchema = paginationQuerySchema();
+
+export type PaginationQuery = z.infer<typeof PaginationQuerySchema>;
+
+/**
+ * Paginated response envelope: `{ success, data: [...], pagination: { limit, nextCursor } }`
+ */
+export const paginatedResponseSchema = <T extends ZodType>(item: T) =>
+  z.object({
+    success: z.literal(true),
+    data: z.array(item),
+    pagination: z.object({
+      limit: z.number().int(),
+      nextCursor: z.string().nullable(),
+    }),
+  });
+
+export interface PaginatedResponse<T> {
+  success: true;
+  data: T[];
+  pagination: {
+    limit: number;
+    nextCursor: string | null;
+  };
+}
+
+/**
+ * Build the paginated envelope from a page of items and DynamoDB's `LastEvaluatedKey`
+ */
+export const toPaginatedResponse = <T>(
+  items: T[],
+  page: { limit: number; lastEvaluatedKey?: PageKey },
+  codec: CursorCodec,
+  scope?: string
+): PaginatedResponse<T> => ({
+  success: true,
+  data: items,
+  pagination: {
+    limit: page.limit,
+    nextCursor: page.lastEvaluatedKey ? codec.encode(page.lastEvaluatedKey, scope) : null,
+  },
+});
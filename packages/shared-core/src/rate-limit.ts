@@ -0,0 +1,227 @@
+import {
+  AWSClients,
+  DynamoDBClient,
+  GetItemCommand,
+  marshall,
+  PutItemCommand,
+  unmarshall,
+} from './clients/aws-clients';
+import { TooManyRequestsError } from './errors';
+import { getCallerId } from './jwt-utils';
+import { createLogger } from './logger';
+import type { APIGatewayProxyEventV2WithJWTAuthorizer, Middleware } from './types';
+
+export const DEFAULT_RATE_LIMIT_WINDOW_SECONDS = 60;
+
+const MAX_CONSUME_ATTEMPTS = 3;
+
+const logger = createLogger('rate-limit');
+
+export interface TokenBucketPolicy {
+  /** Maximum tokens (burst size) */
+  capacity: number;
+  /** Tokens added per second */
+  refillPerSecond: number;
+}
+
+export interface TokenBucketState {
+  tokens: number;
+  /** Epoch milliseconds of the last refill */
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Whole tokens left after this request */
+  remaining: number;
+  /** Seconds until the bucket is full again */
+  resetSeconds: number;
+  /** Seconds until the next token is available (denied requests only) */
+  retryAfterSeconds?: number;
+}
+
+export interface RateLimitStore {
+  /** Take one token from the bucket stored under `key` */
+  consume: (
+    key: string,
+    policy: TokenBucketPolicy,
+    signal?: AbortSignal
+  ) => Promise<RateLimitResult>;
+}
+
+export interface RateLimitOptions {
+  store: RateLimitStore;
+  /** Requests allowed per window, which is also the burst size */
+  limit: number;
+  /** Seconds for an empty bucket to refill completely (default: 60) */
+  windowSeconds?: number;
+  /** Bucket name, shared by routes using the same name (default: the route's method and path) */
+  bucket?: string;
+  /** Caller identity (default: `getCallerId`, or the source IP for anonymous requests) */
+  keyBy?: (event: APIGatewayProxyEventV2WithJWTAuthorizer) => string;
+}
+
+/**
+ * Refill a token bucket up to `now` and take one token.
+ * Returns the new state to persist, or no state when the request is denied.
+ */
+export const takeToken = (
+  previous: TokenBucketState | undefined,
+  { capacity, refillPerSecond }: TokenBucketPolicy,
+  now: number
+): { state?: TokenBucketState; result: RateLimitResult } => {
+  const elapsedSeconds = previous ? Math.max(0, now - previous.updatedAt) / 1000 : 0;
+  const available = previous
+    ? Math.min(capacity, previous.tokens + elapsedSeconds * refillPerSecond)
+    : capacity;
+
+  if (available < 1) {
+    return {
+      result: {
+        allowed: false,
+        remaining: 0,
+        resetSeconds: Math.ceil((capacity - available) / refillPerSecond),
+        retryAfterSeconds: Math.ceil((1 - available) / refillPerSecond),
+      },
+    };
+  }
+
+  const tokens = available - 1;
+  return {
+    state: { tokens, updatedAt: now },
+    result: {
+      allowed: true,
+      remaining: Math.floor(tokens),
+      resetSeconds: Math.ceil((capacity - tokens) / refillPerSecond),
+    },
+  };
+};
+
+/**
+ * Token buckets stored in the single table: PK `RATELIMIT#{key}`, SK `RATELIMIT`.
+ * Updates use optimistic concurrency on `updatedAt`, throwing after repeated conflicts,
+ * and buckets expire through the table's `ttl` attribute once they would be full again.
+ */
+export const createDynamoRateLimitStore = ({
+  tableName,
+  client,
+}: { tableName?: string; client?: DynamoDBClient } = {}): RateLimitStore => {
+  const table = () => {
+    const name = tableName || process.env.TABLE_NAME;
+    if (!name) {
+      throw new Error('TABLE_NAME environment variable is required');
+    }
+    return name;
+  };
+  const dynamo = () => client || AWSClients.dynamoDB;
+  const keyOf = (key: string) => ({ PK: `RATELIMIT#${key}`, SK: 'RATELIMIT' });
+
+  return {
+    consume: async (key, policy, signal) => {
+      for (let attempt = 0; attempt < MAX_CONSUME_ATTEMPTS; attempt++) {
+        const { Item } = await dynamo().send(
+          new GetItemCommand({
+            TableName: table(),
+            Key: marshall(keyOf(key)),
+            ConsistentRead: true,
+          }),
+          { abortSignal: signal }
+        );
+        const previous = Item ? (unmarshall(Item) as TokenBucketState) : undefined;
+
+        const now = Date.now();
+        const { state, result } = takeToken(previous, policy, now);
+        if (!state) return result;
+
+        try {
+          await dynamo().send(
+            new PutItemCommand({
+              TableName: table(),
+              Item: marshall({
+                ...keyOf(key),
+                tokens: state.tokens,
+                updatedAt: state.updatedAt,
+                ttl: Math.ceil(now / 1000) + result.resetSeconds,
+              }),
+              ConditionExpression: previous ? 'updatedAt = :updatedAt' : 'attribute_not_exists(PK)',
+              ...(previous && {
+                ExpressionAttributeValues: marshall({ ':updatedAt': previous.updatedAt }),
+              }),
+            }),
+            { abortSignal: signal }
+          );
+          return result;
+        } catch (error) {
+          // Another request updated the bucket first: re-read and try again
+          if ((error as Error).name !== 'ConditionalCheckFailedException') throw error;
+        }
+      }
+
+      // Too contended to update; the middleware lets the request through
+      throw new Error(`Rate limit bucket ${key} kept changing, giving up`);
+    },
+  };
+};
+
+/**
+ * Token-bucket rate limiting per caller and route.
+ *
+ * Responses carry `RateLimit-Limit`, `RateLimit-Remaining`, `RateLimit-Reset` and
+ * `RateLimit-Policy`; callers over the limit get 429 with `Retry-After`. When the store
+ * is unavailable requests are let through rather than failing the API.
+ */
+export const rateLimit = ({
+  store,
+  limit,
+  windowSeconds = DEFAULT_RATE_LIMIT_WINDOW_SECONDS,
+  bucket,
+  keyBy,
+}: RateLimitOptions): Middleware => ({
+  name: 'rateLimit',
+  before: async ({ event, route, internal, signal }) => {
+    const caller = keyBy?.(event) ?? getCallerId(event) ?? event.requestContext.http.sourceIp;
+    const name = bucket ?? (route ? `${route.method} ${route.path}` : '*');
+
+    let result: RateLimitResult;
+    try {
+      result = await store.consume(
+        `${name}#${caller}`,
+        {
+          capacity: limit,
+          refillPerSecond: limit / windowSeconds,
+        },
+        signal
+      );
+    } catch (error) {
+      logger.warn('Rate limit store unavailable, allowing request', {
+        error: (error as Error).message,
+      });
+      return;
+    }
+
+    const headers = {
+      'RateLimit-Limit': String(limit),
+      'RateLimit-Remaining': String(result.remaining),
+      'RateLimit-Reset': String(result.resetSeconds),
+      'RateLimit-Policy': `${limit};w=${windowSeconds}`,
+    };
+
+    if (!result.allowed) {
+      const error = new TooManyRequestsError(
+        'Rate limit exceeded, retry later',
+        undefined,
+        result.retryAfterSeconds
+      );
+      error.headers = { ...error.headers, ...headers };
+      throw error;
+    }
+
+    internal.rateLimitHeaders = headers;
+  },
+  after: ({ internal, response }) => {
+    const headers = internal.rateLimitHeaders as Record<string, string> | undefined;
+    if (!headers || typeof response !== 'object') return;
+
+    return { ...response, headers: { ...response.headers, ...headers } };
+  },
+});
@@ -0,0 +1,165 @@
+import { BadRequestError } from './errors';
+import { Route } from './types';
+
+interface RouteLeaf {
+  route: Route;
+  paramNames: string[];
+}
+
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  param?: TrieNode;
+  greedy?: Map<string, RouteLeaf>;
+  routes: Map<string, RouteLeaf>;
+}
+
+export interface RouteMatch {
+  route: Route;
+  params: Record<string, string>;
+}
+
+const createNode = (): TrieNode => ({ children: new Map(), routes: new Map() });
+
+/**
+ * Split a path into segments, ignoring a single trailing slash ("/users/" === "/users")
+ */
+export const splitPath = (path: string): string[] => {
+  const normalized = path.length > 1 && path.endsWith('/') ? path.slice(0, -1) : path;
+  return normalized.split('/');
+};
+
+const paramName = (segment: string): string | null =>
+  segment.startsWith('{') && segment.endsWith('}') ? segment.slice(1, -1) : null;
+
+/**
+ * Returns the parameter name of a greedy `{name+}` segment, or null
+ */
+export const greedyParamName = (segment: string): string | null => {
+  const name = paramName(segment);
+  return name && name.endsWith('+') ? name.slice(0, -1) : null;
+};
+
+/**
+ * Percent-decode a path segment; malformed escapes (e.g. `%E0%A4%A`) are rejected with 400
+ */
+export const decodePathSegment = (segment: string): string => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new BadRequestError('Malformed URL encoding in path', { segment });
+  }
+};
+
+/**
+ * Compiled route table backed by a segment trie.
+ *
+ * Precedence at every level is static segment > `{param}` > greedy `{proxy+}`,
+ * independent of declaration order. For identical method and path the first
+ * declared route wins.
+ */
+export class RouteTrie {
+  private readonly root: TrieNode = createNode();
+
+  constructor(routes: Route[] = []) {
+    routes.forEach(route => this.insert(route));
+  }
+
+  insert(route: Route): void {
+    const method = route.method.toUpperCase();
+    const segments = splitPath(route.path);
+    const paramNames: string[] = [];
+    let node = this.root;
+
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      const greedy = greedyParamName(segment);
+
+      if (greedy) {
+        if (i !== segments.length - 1) {
+          throw new Error(`Greedy parameter must be the last segment: ${route.path}`);
+        }
+        paramNames.push(greedy);
+        node.greedy = node.greedy || new Map();
+        if (!node.greedy.has(method)) node.greedy.set(method, { route, paramNames });
+        return;
+      }
+
+      const name = paramName(segment);
+      if (name) {
+        paramNames.push(name);
+        node.param = node.param || createNode();
+        node = node.param;
+      } else {
+        if (!node.children.has(segment)) node.children.set(segment, createNode());
+        node = node.children.get(segment)!;
+      }
+    }
+
+    if (!node.routes.has(method)) node.routes.set(method, { route, paramNames });
+  }
+
+  /**
+   * Find the route for a method and path, backtracking to less specific
+   * branches when a more specific one has no route for the method.
+   */
+  match(method: string, path: string): RouteMatch | null {
+    const upperMethod = method.toUpperCase();
+    return this.find(splitPath(path), leaves => leaves.get(upperMethod));
+  }
+
+  /**
+   * List every method registered for routes matching the path
+   */
+  allowedMethods(path: string): string[] {
+    const methods = new Set<string>();
+    this.find(splitPath(path), leaves => {
+      leaves.forEach((_leaf, method) => methods.add(method));
+      return undefined;
+    });
+    return [...methods];
+  }
+
+  private find(
+    segments: string[],
+    select: (leaves: Map<string, RouteLeaf>) => RouteLeaf | undefined
+  ): RouteMatch | null {
+    const visit = (node: TrieNode, index: number, values: string[]): RouteMatch | null => {
+      if (index === segments.length) {
+        const leaf = select(node.routes);
+        return leaf ? toMatch(leaf, values) : null;
+      }
+
+      const segment = segments[index];
+
+      const child = node.children.get(segment);
+      if (child) {
+        const found = visit(child, index + 1, values);
+        if (found) return found;
+      }
+
+      if (node.param && segment !== '') {
+        const found = visit(node.param, index + 1, [...values, segment]);
+        if (found) return found;
+      }
+
+      if (node.greedy) {
+        const rest = segments.slice(index);
+        if (rest.some(part => part !== '')) {
+          const leaf = select(node.greedy);
+          if (leaf) return toMatch(leaf, [...values, rest.join('/')]);
+        }
+      }
+
+      return null;
+    };
+
+    return visit(this.root, 0, []);
+  }
+}
+
+const toMatch = (leaf: RouteLeaf, values: string[]): RouteMatch => ({
+  route: leaf.route,
+  params: Object.fromEntries(
+    leaf.paramNames.map((name, i) => [name, values[i].split('/').map(decodePathSegment).join('/')])
+  ),
+});
@@ -1,122 +1,257 @@
-import { createLogger } from './logger';
 import { APIGatewayProxyResultV2, Context } from 'aws-lambda';
 import {
-  HttpError,
   createErrorResponse,
   APIGatewayProxyEventV2WithJWTAuthorizer,
+  Middleware,
+  MiddlewareRequest,
   ParsedEvent,
   Route,
+  RouterOptions,
 } from './types';
 import { createSuccessResponse } from './responses';
-import { findMatchingRoute, parseBody, validateSchema } from './routing';
+import { MethodNotAllowedError, NotFoundError } from './errors';
+import { compileRoutes } from './routing';
+import { RouteTrie } from './route-trie';
+import { openApiRoute } from './openapi';
+import { bodyParsers, getHeader, responseSerializers } from './content-types';
+import { withCorsHeaders } from './cors';
+import { timeoutBudgetMs, withTimeout } from './timeout';
+import { expandVersionedRoutes, groupRouteVersions, selectRouteVersion } from './versioning';
+import {
+  authorization,
+  bodyParser,
+  compression,
+  contentNegotiation,
+  cors,
+  errorHandler,
+  httpCache,
+  requestLogger,
+  responseValidator,
+  routeVersioning,
+  runAfter,
+  runBefore,
+  runOnError,
+  validator,
+} from './middleware';
+
+/**
+ * Methods allowed for a path, including the implicit HEAD (served by GET) and OPTIONS
+ */
+const allowedMethods = (routeTable: RouteTrie, path: string): string[] => {
+  const methods = new Set(routeTable.allowedMethods(path));
+  if (methods.size === 0) return [];
 
-const logger = createLogger('middleware');
+  if (methods.has('GET')) methods.add('HEAD');
+  methods.add('OPTIONS');
 
-const addContext = (context: Context): void => {
-  if (process.env.ENABLE_REQUEST_LOGGING === 'false') return;
-  logger.addContext(context);
+  return [...methods].sort();
 };
 
-const logRequest = (event: APIGatewayProxyEventV2WithJWTAuthorizer | ParsedEvent) => {
-  if (process.env.ENABLE_REQUEST_LOGGING === 'false') return;
+/**
+ * Resolve the route for the request and build the parsed event.
+ * Returns null when the request is answered without a route (automatic OPTIONS).
+ */
+const resolveRoute = (
+  routeTable: RouteTrie,
+  versions: Map<string, Route[]>,
+  request: MiddlewareRequest,
+  defaultVersion?: number
+): Route | null => {
+  const { event } = request;
+  const method = event.requestContext.http.method.toUpperCase();
+  const path = event.requestContext.http.path;
 
-  const userId = event.requestContext.authorizer?.jwt?.claims?.sub;
-  const logData = {
-    requestId: event.requestContext.requestId,
-    method: event.requestContext.http.method,
-    path: event.requestContext.http.path,
-    userId: typeof userId === 'string' ? userId : undefined,
-  };
+  const matchedRoute =
+    routeTable.match(method, path) || (method === 'HEAD' ? routeTable.match('GET', path) : null);
 
-  logger.info('Incoming request', logData);
-};
+  if (!matchedRoute) {
+    const allow = allowedMethods(routeTable, path);
+
+    if (allow.length === 0) {
+      throw new NotFoundError(`Route not found: ${method} ${path}`);
+    }
+
+    if (method === 'OPTIONS') {
+      request.response = { statusCode: 204, headers: { Allow: allow.join(', ') }, body: '' };
+      return null;
+    }
 
-const logResponse = (
-  event: APIGatewayProxyEventV2WithJWTAuthorizer | ParsedEvent,
-  response: APIGatewayProxyResultV2,
-  duration: number
-) => {
-  if (process.env.ENABLE_REQUEST_LOGGING === 'false') return;
+    throw new MethodNotAllowedError(`Method not allowed: ${method} ${path}`, allow);
+  }
 
-  const statusCode =
-    typeof response === 'object' && 'statusCode' in response ? response.statusCode : 200;
+  const { params } = matchedRoute;
+  const route = selectRouteVersion(
+    versions,
+    matchedRoute.route,
+    getHeader(event.headers, 'accept-version'),
+    defaultVersion
+  );
+  request.internal.versionNegotiated = versions.has(
+    `${matchedRoute.route.method.toUpperCase()} ${matchedRoute.route.path}`
+  );
 
-  const logData = {
-    requestId: event.requestContext.requestId,
-    statusCode,
-    duration: `${duration}ms`,
+  const parsedEvent: ParsedEvent = {
+    ...event,
+    // Parsed by the bodyParser step once the request is authorized
+    body: undefined,
+    pathParameters: { ...(event.pathParameters || {}), ...params } as Record<string, string>,
+    queryStringParameters: event.queryStringParameters
+      ? ({ ...event.queryStringParameters } as Record<string, string>)
+      : {},
   };
 
-  const logLevel =
-    statusCode && statusCode >= 500 ? 'error' : statusCode && statusCode >= 400 ? 'warn' : 'info';
+  request.route = route;
+  request.parsedEvent = parsedEvent;
+
+  return route;
+};
 
-  logger[logLevel]('Request completed', logData);
+/**
+ * HEAD responses carry the GET headers without a body
+ */
+const withoutBodyForHead = (
+  event: APIGatewayProxyEventV2WithJWTAuthorizer,
+  response: APIGatewayProxyResultV2
+): APIGatewayProxyResultV2 => {
+  if (event.requestContext.http.method.toUpperCase() !== 'HEAD' || typeof response !== 'object') {
+    return response;
+  }
+  return { ...response, body: '' };
 };
 
-export const createRouter = (routes: Route[]) => {
+/**
+ * Create a Lambda handler that dispatches API Gateway v2 events to routes.
+ *
+ * Each request runs through a middleware chain:
+ * cors -> requestLogger -> errorHandler -> httpCache -> compression -> router middlewares ->
+ * routeVersioning -> contentNegotiation -> authorization -> route middlewares -> bodyParser ->
+ * responseValidator -> validator -> handler.
+ * Route middlewares such as `rateLimit` and `idempotency` run before the body is parsed and
+ * only see the raw `event.body`.
+ * Request bodies are parsed by `content-type` and responses serialized for `Accept`;
+ * both registries can be extended through the router options.
+ * `before` hooks run in order, `after` and `onError` hooks run in reverse.
+ *
+ * Unknown paths return 404; known paths with an unsupported method return 405 with
+ * an `Allow` header. OPTIONS is answered automatically and HEAD is served by GET routes.
+ * Versioned routes are served under their `/v{n}` prefix and, on the shared path, picked
+ * by `Accept-Version`; deprecated routes carry `Deprecation`/`Sunset` headers.
+ * With a `cors` policy, CORS headers are added to every response, including
+ * preflights and errors. Large bodies are compressed for `Accept-Encoding`, and GET
+ * responses carry ETags (304 on `If-None-Match`) and the route's `cacheControl`.
+ *
+ * Handlers and middlewares get an `AbortSignal`. The route middlewares and handler must
+ * finish within the route's `timeoutMs` from the start of the request, capped by the
+ * remaining Lambda time less `timeoutMarginMs`; otherwise the signal is aborted and a 504
+ * is returned before the runtime kills the invocation.
+ *
+ * Routes with `authorize` guards answer 401 without a JWT, API key or IAM principal and 403
+ * when a guard denies, before the request body is parsed or validated.
+ */
+export const createRouter = (routes: Route[], options: RouterOptions = {}) => {
+  const routeTable = compileRoutes(
+    expandVersionedRoutes(
+      options.openapi
+        ? [...routes, openApiRoute(routes, options.openapi, options.openapi.path)]
+        : routes
+    )
+  );
+  const versions = groupRouteVersions(routes);
+  const routerMiddlewares: Middleware[] = [
+    ...(options.cors ? [cors(options.cors)] : []),
+    requestLogger(),
+    errorHandler(),
+    httpCache({ etag: options.etag }),
+    ...(options.compression === false ? [] : [compression(options.compression)]),
+    ...(options.middlewares || []),
+  ];
+  const parseRequestBody = bodyParser({
+    parsers: { ...bodyParsers, ...options.bodyParsers },
+    maxBodySize: options.maxBodySize,
+  });
+  const negotiation = contentNegotiation({ ...responseSerializers, ...options.serializers });
+  const validation = validator();
+  const responseValidation = responseValidator();
+  const versioning = routeVersioning();
+  const authorize = authorization();
+
   return async (
     event: APIGatewayProxyEventV2WithJWTAuthorizer,
     context: Context
   ): Promise<APIGatewayProxyResultV2> => {
-    const startTime = Date.now();
-
-    addContext(context);
-    logRequest(event);
+    const controller = new AbortController();
+    const request: MiddlewareRequest = {
+      event,
+      context,
+      startTime: Date.now(),
+      signal: controller.signal,
+      internal: {},
+    };
+    const entered: Middleware[] = [];
 
-    try {
-      const method = event.requestContext.http.method;
-      const path = event.requestContext.http.path;
+    /**
+     * Route middlewares and the handler, which share the route's timeout budget
+     */
+    const runRoute = async (route: Route): Promise<void> => {
+      const routeStart = entered.length;
+      const shortCircuited = await runBefore(
+        [
+          versioning,
+          negotiation,
+          authorize,
+          ...(route.middlewares || []),
+          parseRequestBody,
+          responseValidation,
+          validation,
+        ],
+        request,
+        entered
+      );
 
-      const matchedRoute = findMatchingRoute(routes, method, path);
-      if (!matchedRoute) {
-        throw new HttpError(404, `Route not found: ${method} ${path}`);
+      if (!shortCircuited) {
+        const result = await route.handler({
+          event: request.parsedEvent!,
+          context,
+          signal: controller.signal,
+        });
+        request.response = createSuccessResponse(result);
       }
 
-      const { route, params } = matchedRoute;
+      await runAfter(entered.slice(routeStart), request);
+    };
 
-      const parsedEvent: ParsedEvent = {
-        ...event,
-        body: parseBody(event),
-        pathParameters: { ...(event.pathParameters || {}), ...params } as Record<string, string>,
-        queryStringParameters: event.queryStringParameters
-          ? ({ ...event.queryStringParameters } as Record<string, string>)
-          : {},
-      };
+    try {
+      const shortCircuited = await runBefore(routerMiddlewares, request, entered);
+      const routerEntered = entered.length;
+      const route = shortCircuited
+        ? null
+        : resolveRoute(routeTable, versions, request, options.defaultVersion);
 
-      if (route.schema?.body) {
-        parsedEvent.body = validateSchema(parsedEvent.body, route.schema.body, 'body');
-      }
-      if (route.schema?.query) {
-        parsedEvent.queryStringParameters = validateSchema(
-          parsedEvent.queryStringParameters,
-          route.schema.query,
-          'query parameters'
-        );
-      }
-      if (route.schema?.path) {
-        parsedEvent.pathParameters = validateSchema(
-          parsedEvent.pathParameters,
-          route.schema.path,
-          'path parameters'
+      if (route) {
+        await withTimeout(
+          runRoute(route),
+          timeoutBudgetMs(context, {
+            timeoutMs: route.timeoutMs ?? options.timeoutMs,
+            marginMs: options.timeoutMarginMs,
+            startedAt: request.startTime,
+          }),
+          controller,
+          { requestId: event.requestContext.requestId, route: `${route.method} ${route.path}` }
         );
       }
 
-      const result = await route.handler({
-        event: parsedEvent,
-        context,
-      });
+      await runAfter(entered.slice(0, routerEntered), request);
 
-      const response = createSuccessResponse(result);
-      const duration = Date.now() - startTime;
-      logResponse(event, response, duration);
-
-      return response;
+      return withoutBodyForHead(event, request.response!);
     } catch (error) {
-      const response = createErrorResponse(error);
-      const duration = Date.now() - startTime;
-      logResponse(event, response, duration);
+      request.error = error;
 
-      return response;
+      try {
+        return withoutBodyForHead(event, await runOnError(entered, request));
+      } catch (hookError) {
+        const response = createErrorResponse(hookError, event);
+        return options.cors ? withCorsHeaders(event, response, options.cors) : response;
+      }
     }
   };
 };
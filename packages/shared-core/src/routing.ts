@@ -1,24 +1,72 @@
 import { ZodError, ZodType } from 'zod';
-import { Route, APIGatewayProxyEventV2WithJWTAuthorizer, HttpError } from './types';
+import {
+  Route,
+  APIGatewayProxyEventV2WithJWTAuthorizer,
+  Handler,
+  RouteHandler,
+  RouteSchema,
+} from './types';
+import type { AuthorizationGuard } from './authorization';
+import {
+  BadRequestError,
+  PayloadTooLargeError,
+  toFieldErrors,
+  UnsupportedMediaTypeError,
+  ValidationError,
+} from './errors';
+import { decodePathSegment, greedyParamName, RouteMatch, RouteTrie, splitPath } from './route-trie';
+import {
+  BodyParser,
+  bodyParsers,
+  DEFAULT_MAX_BODY_SIZE,
+  findBodyParser,
+  getHeader,
+  parseContentType,
+} from './content-types';
 
-export const parseBody = (event: APIGatewayProxyEventV2WithJWTAuthorizer): any => {
+export interface ParseBodyOptions {
+  /** Parsers keyed by media type (defaults to `bodyParsers`) */
+  parsers?: Record<string, BodyParser>;
+  /** Maximum decoded body size in bytes (defaults to `DEFAULT_MAX_BODY_SIZE`) */
+  maxBodySize?: number;
+}
+
+/**
+ * Parse the request body with the parser registered for its `content-type`.
+ * Bodies without a content type are returned as text; unsupported types are
+ * rejected with 415 and oversized bodies with 413.
+ */
+export const parseBody = (
+  event: APIGatewayProxyEventV2WithJWTAuthorizer,
+  options: ParseBodyOptions = {}
+): any => {
   if (!event.body) return {};
 
-  try {
-    const body = event.isBase64Encoded
-      ? Buffer.from(event.body, 'base64').toString('utf-8')
-      : event.body;
+  const { parsers = bodyParsers, maxBodySize = DEFAULT_MAX_BODY_SIZE } = options;
+  const body = Buffer.from(event.body, event.isBase64Encoded ? 'base64' : 'utf-8');
 
-    const contentType = event.headers['content-type'] || event.headers['Content-Type'] || '';
+  if (body.length > maxBodySize) {
+    throw new PayloadTooLargeError('Request body too large', { maxBodySize });
+  }
 
-    if (contentType.includes('application/json')) {
-      return JSON.parse(body);
-    } else if (contentType.includes('application/x-www-form-urlencoded')) {
-      return Object.fromEntries(new URLSearchParams(body));
-    }
-    return body;
-  } catch {
-    throw new HttpError(400, 'Invalid request body format');
+  const header = getHeader(event.headers, 'content-type');
+  if (!header) return body.toString('utf-8');
+
+  const contentType = parseContentType(header);
+  const parser = findBodyParser(parsers, contentType.mediaType);
+  if (!parser) {
+    throw new UnsupportedMediaTypeError(`Unsupported media type: ${contentType.mediaType}`, {
+      supported: Object.keys(parsers),
+    });
+  }
+
+  try {
+    return parser(body, contentType);
+  } catch (error) {
+    throw new BadRequestError(
+      'Invalid request body format',
+      error instanceof Error ? error.message : undefined
+    );
   }
 };
 
@@ -27,7 +75,7 @@ export const validateSchema = (data: any, schema: ZodType, fieldName: string): a
     return schema.parse(data);
   } catch (error) {
     if (error instanceof ZodError) {
-      throw new HttpError(400, `Validation failed for ${fieldName}`, error.issues);
+      throw new ValidationError(`Validation failed for ${fieldName}`, toFieldErrors(error.issues));
     }
     throw error;
   }
@@ -37,62 +85,101 @@ export const matchPath = (
   pattern: string,
   path: string
 ): { match: boolean; params: Record<string, string> } => {
-  const patternParts = pattern.split('/');
-  const pathParts = path.split('/');
-
-  if (patternParts.length !== pathParts.length) {
-    return { match: false, params: {} };
-  }
-
+  const patternParts = splitPath(pattern);
+  const pathParts = splitPath(path);
   const params: Record<string, string> = {};
 
   for (let i = 0; i < patternParts.length; i++) {
     const patternPart = patternParts[i];
+    const greedy = greedyParamName(patternPart);
+
+    if (greedy) {
+      const rest = pathParts.slice(i);
+      if (!rest.some(part => part !== '')) {
+        return { match: false, params: {} };
+      }
+      params[greedy] = rest.map(decodePathSegment).join('/');
+      return { match: true, params };
+    }
+
     const pathPart = pathParts[i];
+    if (pathPart === undefined) {
+      return { match: false, params: {} };
+    }
 
     if (patternPart.startsWith('{') && patternPart.endsWith('}')) {
       const paramName = patternPart.slice(1, -1);
-      params[paramName] = decodeURIComponent(pathPart);
+      params[paramName] = decodePathSegment(pathPart);
     } else if (patternPart !== pathPart) {
       return { match: false, params: {} };
     }
   }
 
+  if (patternParts.length !== pathParts.length) {
+    return { match: false, params: {} };
+  }
+
   return { match: true, params };
 };
 
+const compiledRoutes = new WeakMap<Route[], RouteTrie>();
+
+/**
+ * Compile routes into a trie once per route table (cached by array identity)
+ */
+export const compileRoutes = (routes: Route[]): RouteTrie => {
+  let trie = compiledRoutes.get(routes);
+  if (!trie) {
+    trie = new RouteTrie(routes);
+    compiledRoutes.set(routes, trie);
+  }
+  return trie;
+};
+
 export const findMatchingRoute = (
   routes: Route[],
   method: string,
   path: string
-): { route: Route; params: Record<string, string> } | null => {
-  for (const route of routes) {
-    if (route.method.toUpperCase() !== method.toUpperCase()) {
-      continue;
-    }
-
-    const { match, params } = matchPath(route.path, path);
-    if (match) {
-      return { route, params };
-    }
-  }
-
-  return null;
-};
+): RouteMatch | null => compileRoutes(routes).match(method, path);
 
-export const route = ({
+/**
+ * Define a route. Handler input (`body`, `query`, `path`) and output types are
+ * inferred from the route's Zod schemas.
+ */
+export const route = <S extends RouteSchema = RouteSchema>({
   method,
   path,
   handler,
   schema,
+  middlewares,
+  docs,
+  cacheControl,
+  timeoutMs,
+  version,
+  deprecation,
+  authorize,
 }: {
   method: string;
   path: string;
-  handler: Route['handler'];
-  schema?: Route['schema'];
+  handler: RouteHandler<S>;
+  schema?: S;
+  middlewares?: Route['middlewares'];
+  docs?: Route['docs'];
+  cacheControl?: Route['cacheControl'];
+  timeoutMs?: Route['timeoutMs'];
+  version?: Route['version'];
+  deprecation?: Route['deprecation'];
+  authorize?: AuthorizationGuard[];
 }): Route => ({
   method,
   path,
-  handler,
+  handler: handler as Handler,
   schema,
+  middlewares,
+  docs,
+  cacheControl,
+  timeoutMs,
+  version,
+  deprecation,
+  authorize,
 });
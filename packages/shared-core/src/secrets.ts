@@ -0,0 +1,201 @@
+import { readFileSync } from 'fs';
+import {
+  AWSClients,
+  GetParameterCommand,
+  GetSecretValueCommand,
+  SecretsManagerClient,
+  SSMClient,
+} from './clients/aws-clients';
+import { createLogger } from './logger';
+
+export const SSM_REFERENCE_PREFIX = 'ssm:';
+export const SECRETS_MANAGER_REFERENCE_PREFIX = 'secretsmanager:';
+export const DEFAULT_SECRETS_TTL_SECONDS = 300;
+
+const logger = createLogger('secrets');
+
+/** Fetch the current value of a secret reference */
+export type SecretFetcher = (reference: string) => Promise<string>;
+
+export interface SecretsProvider {
+  /** Value of an `ssm:` or `secretsmanager:` reference, cached for the provider's TTL */
+  get: (reference: string) => Promise<string>;
+  /** Drop cached values (all of them without a reference) so the next `get` fetches again */
+  invalidate: (reference?: string) => void;
+}
+
+export const isSecretReference = (value: string | undefined): value is string =>
+  !!value &&
+  (value.startsWith(SSM_REFERENCE_PREFIX) || value.startsWith(SECRETS_MANAGER_REFERENCE_PREFIX));
+
+// "secretsmanager:auth/client#clientSecret" -> { secretId: 'auth/client', jsonKey: 'clientSecret' }
+const parseSecretsManagerReference = (reference: string) => {
+  const [secretId, jsonKey] = reference.slice(SECRETS_MANAGER_REFERENCE_PREFIX.length).split('#');
+  return { secretId, jsonKey };
+};
+
+const selectJsonKey = (secretId: string, secret: string, jsonKey?: string): string => {
+  if (!jsonKey) return secret;
+
+  const value = JSON.parse(secret)[jsonKey];
+  if (value === undefined) {
+    throw new Error(`Secret ${secretId} has no key ${jsonKey}`);
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+/**
+ * Fetch `ssm:/path/to/parameter` (decrypted) and `secretsmanager:secret-id`, optionally
+ * selecting one key of a JSON secret with `secretsmanager:secret-id#key`
+ */
+export const createAwsSecretFetcher = ({
+  ssm,
+  secretsManager,
+}: { ssm?: SSMClient; secretsManager?: SecretsManagerClient } = {}): SecretFetcher => {
+  return async reference => {
+    if (reference.startsWith(SSM_REFERENCE_PREFIX)) {
+      const name = reference.slice(SSM_REFERENCE_PREFIX.length);
+      const { Parameter } = await (ssm || AWSClients.ssm).send(
+        new GetParameterCommand({ Name: name, WithDecryption: true })
+      );
+      if (Parameter?.Value === undefined) {
+        throw new Error(`Parameter ${name} has no value`);
+      }
+      return Parameter.Value;
+    }
+
+    if (!reference.startsWith(SECRETS_MANAGER_REFERENCE_PREFIX)) {
+      throw new Error(`Unsupported secret reference: ${reference}`);
+    }
+
+    const { secretId, jsonKey } = parseSecretsManagerReference(reference);
+    const { SecretString } = await (secretsManager || AWSClients.secretsManager).send(
+      new GetSecretValueCommand({ SecretId: secretId })
+    );
+    if (SecretString === undefined) {
+      throw new Error(`Secret ${secretId} has no string value`);
+    }
+    return selectJsonKey(secretId, SecretString, jsonKey);
+  };
+};
+
+/**
+ * Cache fetched secrets for `ttlSeconds` so warm invocations skip the network, while
+ * rotated values are picked up once the TTL expires. Concurrent requests for the same
+ * reference share one fetch, and a failed refresh keeps serving the previous value.
+ */
+export const createCachedSecretsProvider = (
+  fetch: SecretFetcher,
+  { ttlSeconds = DEFAULT_SECRETS_TTL_SECONDS }: { ttlSeconds?: number } = {}
+): SecretsProvider => {
+  const cache = new Map<string, { value?: string; expiresAt: number; pending?: Promise<string> }>();
+
+  return {
+    get: async reference => {
+      const entry = cache.get(reference);
+      if (entry?.value !== undefined && Date.now() < entry.expiresAt) return entry.value;
+      if (entry?.pending) return entry.pending;
+
+      const pending = fetch(reference).then(
+        value => {
+          cache.set(reference, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+          return value;
+        },
+        error => {
+          if (entry?.value === undefined) {
+            cache.delete(reference);
+            throw error;
+          }
+          logger.warn('Failed to refresh secret, using cached value', {
+            reference,
+            error: (error as Error).message,
+          });
+          cache.set(reference, { value: entry.value, expiresAt: entry.expiresAt });
+          return entry.value;
+        }
+      );
+      cache.set(reference, { ...entry, expiresAt: entry?.expiresAt ?? 0, pending });
+      return pending;
+    },
+
+    invalidate: reference => {
+      if (reference === undefined) {
+        cache.clear();
+      } else {
+        cache.delete(reference);
+      }
+    },
+  };
+};
+
+/**
+ * Secrets from SSM Parameter Store and Secrets Manager
+ */
+export const createAwsSecretsProvider = ({
+  ssm,
+  secretsManager,
+  ttlSeconds,
+}: {
+  ssm?: SSMClient;
+  secretsManager?: SecretsManagerClient;
+  ttlSeconds?: number;
+} = {}): SecretsProvider =>
+  createCachedSecretsProvider(createAwsSecretFetcher({ ssm, secretsManager }), { ttlSeconds });
+
+/**
+ * Local stand-in reading a JSON file of references to values, for tests and offline development:
+ * `{ "ssm:/dev/cursor-secret": "abc", "secretsmanager:dev/auth/client": { "clientSecret": "xyz" } }`.
+ * The file is re-read on every fetch (TTL 0 by default) so edits act as rotations.
+ */
+export const createFileSecretsProvider = ({
+  path,
+  ttlSeconds = 0,
+}: {
+  path: string;
+  ttlSeconds?: number;
+}): SecretsProvider =>
+  createCachedSecretsProvider(
+    async reference => {
+      const secrets = JSON.parse(readFileSync(path, 'utf-8')) as Record<string, unknown>;
+      const { secretId, jsonKey } = reference.startsWith(SECRETS_MANAGER_REFERENCE_PREFIX)
+        ? parseSecretsManagerReference(reference)
+        : { secretId: reference, jsonKey: undefined };
+      const key = jsonKey ? `${SECRETS_MANAGER_REFERENCE_PREFIX}${secretId}` : reference;
+
+      const value = secrets[key];
+      if (value === undefined) {
+        throw new Error(`Secret ${key} not found in ${path}`);
+      }
+      return selectJsonKey(
+        secretId,
+        typeof value === 'string' ? value : JSON.stringify(value),
+        jsonKey
+      );
+    },
+    { ttlSeconds }
+  );
+
+let defaultProvider: SecretsProvider | undefined;
+
+/**
+ * Shared provider for warm invocations: the file stand-in when `SECRETS_FILE` is set,
+ * otherwise SSM and Secrets Manager with `SECRETS_TTL_SECONDS` (default: 300)
+ */
+export const getSecretsProvider = (): SecretsProvider => {
+  if (!defaultProvider) {
+    const ttlSeconds = process.env.SECRETS_TTL_SECONDS
+      ? Number(process.env.SECRETS_TTL_SECONDS)
+      : undefined;
+    defaultProvider = process.env.SECRETS_FILE
+      ? createFileSecretsProvider({ path: process.env.SECRETS_FILE, ttlSeconds })
+      : createAwsSecretsProvider({ ttlSeconds });
+  }
+  return defaultProvider;
+};
+
+/**
+ * Replace the shared provider, or reset it to be recreated from the environment (useful for testing)
+ */
+export const setSecretsProvider = (provider?: SecretsProvider): void => {
+  defaultProvider = provider;
+};
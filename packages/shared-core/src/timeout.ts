@@ -0,0 +1,61 @@
+import { Context } from 'aws-lambda';
+import { GatewayTimeoutError } from './errors';
+import { createLogger } from './logger';
+
+export const DEFAULT_TIMEOUT_MARGIN_MS = 1000;
+
+const logger = createLogger('timeout');
+
+/**
+ * Milliseconds a request may still run: the route timeout, counted from `startedAt` when
+ * given, capped by the remaining Lambda time minus a margin for returning the 504.
+ * Undefined when neither limit applies.
+ */
+export const timeoutBudgetMs = (
+  context: Partial<Pick<Context, 'getRemainingTimeInMillis'>>,
+  {
+    timeoutMs: routeTimeoutMs,
+    marginMs = DEFAULT_TIMEOUT_MARGIN_MS,
+    startedAt,
+  }: { timeoutMs?: number; marginMs?: number; startedAt?: number }
+): number | undefined => {
+  const timeoutMs =
+    routeTimeoutMs === undefined || startedAt === undefined
+      ? routeTimeoutMs
+      : Math.max(0, routeTimeoutMs - (Date.now() - startedAt));
+  const remaining =
+    typeof context.getRemainingTimeInMillis === 'function'
+      ? Math.max(0, context.getRemainingTimeInMillis() - marginMs)
+      : undefined;
+
+  if (remaining === undefined) return timeoutMs;
+  return timeoutMs === undefined ? remaining : Math.min(timeoutMs, remaining);
+};
+
+/**
+ * Settle with `work`, or reject with a 504 and abort `controller` once `budgetMs` elapses
+ */
+export const withTimeout = async <T>(
+  work: Promise<T>,
+  budgetMs: number | undefined,
+  controller: AbortController,
+  logContext: Record<string, unknown> = {}
+): Promise<T> => {
+  if (budgetMs === undefined) return work;
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new GatewayTimeoutError();
+      logger.error('Request timed out', { ...logContext, budgetMs });
+      controller.abort(error);
+      reject(error);
+    }, budgetMs);
+  });
+
+  try {
+    return await Promise.race([work, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -1,6 +1,27 @@
 // Core types that should be shared across all packages
 import { APIGatewayProxyEventV2, APIGatewayProxyResultV2, Context } from 'aws-lambda';
-import { ZodType } from 'zod';
+import { ZodType, z } from 'zod';
+import type { OpenApiOptions } from './openapi';
+import type { CorsOptions } from './cors';
+import type { CompressionOptions } from './compression';
+import type { RouteDeprecation } from './versioning';
+import type { AuthorizationGuard } from './authorization';
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  InternalServerError,
+  NotAcceptableError,
+  NotFoundError,
+  UnauthorizedError,
+} from './errors';
+import {
+  BodyParser,
+  negotiateMediaType,
+  ResponseSerializer,
+  responseSerializers,
+  serializeBody,
+} from './content-types';
 
 export type UUID = string;
 export type ISO8601 = string;
@@ -46,14 +67,63 @@ export interface ParsedEvent
 export interface LambdaContext {
   event: ParsedEvent;
   context: Context;
+  /** Aborted when the request's timeout budget runs out; pass to AWS SDK calls as `abortSignal` */
+  signal: AbortSignal;
 }
 
 export type Handler = (ctx: LambdaContext) => Promise<any> | any;
 
+// A single response schema, or one per status code (e.g. { 200: ..., 201: ... })
+export type ResponseSchema = ZodType | Partial<Record<number, ZodType>>;
+
 export interface RouteSchema {
   body?: ZodType;
   query?: ZodType;
   path?: ZodType;
+  response?: ResponseSchema;
+}
+
+// Typed route helpers: infer handler input/output from a route's Zod schemas
+type InferOutput<S, K extends keyof RouteSchema, Fallback> = S extends {
+  [P in K]: infer T extends ZodType;
+}
+  ? z.output<T>
+  : Fallback;
+
+export interface RouteEvent<S extends RouteSchema = RouteSchema>
+  extends Omit<ParsedEvent, 'body' | 'pathParameters' | 'queryStringParameters'> {
+  body: InferOutput<S, 'body', any>;
+  pathParameters: InferOutput<S, 'path', Record<string, string>>;
+  queryStringParameters: InferOutput<S, 'query', Record<string, string>>;
+}
+
+export interface RouteContext<S extends RouteSchema = RouteSchema> {
+  event: RouteEvent<S>;
+  context: Context;
+  /** Aborted when the request's timeout budget runs out; pass to AWS SDK calls as `abortSignal` */
+  signal: AbortSignal;
+}
+
+type InferResponseInput<T> = T extends ZodType ? z.input<T> : z.input<Extract<T[keyof T], ZodType>>;
+
+export type RouteResult<S extends RouteSchema = RouteSchema> = S extends {
+  response: infer T extends ResponseSchema;
+}
+  ? InferResponseInput<T> | APIGatewayProxyResultV2
+  : any;
+
+export type RouteHandler<S extends RouteSchema = RouteSchema> = (
+  ctx: RouteContext<S>
+) => Promise<RouteResult<S>> | RouteResult<S>;
+
+// Documentation metadata used for OpenAPI generation
+export interface RouteDocs {
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  operationId?: string;
+  deprecated?: boolean;
+  public?: boolean;
 }
 
 export interface Route {
@@ -61,47 +131,80 @@ export interface Route {
   path: string;
   handler: Handler;
   schema?: RouteSchema;
+  /** Run after authorization and before the body is parsed */
+  middlewares?: Middleware[];
+  docs?: RouteDocs;
+  /** `Cache-Control` policy for successful GET/HEAD responses */
+  cacheControl?: string;
+  /** Handler timeout in milliseconds (always capped by the remaining Lambda time) */
+  timeoutMs?: number;
+  /** API version, selected by `Accept-Version` or served under a `/v{n}` path prefix */
+  version?: number;
+  /** Emit `Deprecation`/`Sunset` headers (and mark the operation deprecated in OpenAPI) */
+  deprecation?: RouteDeprecation;
+  /** Guards that must all allow the request, evaluated before the body is parsed or validated */
+  authorize?: AuthorizationGuard[];
 }
 
-// Error handling types
-export class HttpError extends Error {
-  constructor(
-    public statusCode: number,
-    message: string,
-    public details?: any
-  ) {
-    super(message);
-    this.name = 'HttpError';
-  }
+// Middleware pipeline types
+export interface MiddlewareRequest {
+  event: APIGatewayProxyEventV2WithJWTAuthorizer;
+  context: Context;
+  startTime: number;
+  route?: Route;
+  parsedEvent?: ParsedEvent;
+  response?: APIGatewayProxyResultV2;
+  error?: unknown;
+  /** Aborted when the request's timeout budget runs out */
+  signal: AbortSignal;
+  internal: Record<string, unknown>;
 }
 
-// Response helpers
-export const createErrorResponse = (error: any): APIGatewayProxyResultV2 => {
-  console.error('Lambda execution error:', error);
-
-  if (error instanceof HttpError) {
-    return {
-      statusCode: error.statusCode,
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        error: error.message,
-        details: error.details,
-        timestamp: new Date().toISOString(),
-      }),
-    };
-  }
+export type MiddlewareResult = APIGatewayProxyResultV2 | void;
 
-  return {
-    statusCode: 500,
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      error: 'Internal server error',
-      timestamp: new Date().toISOString(),
-    }),
-  };
-};
+export type MiddlewareHook = (
+  request: MiddlewareRequest
+) => Promise<MiddlewareResult> | MiddlewareResult;
 
-export const createSuccessResponse = (data: any): APIGatewayProxyResultV2 => {
+export interface Middleware {
+  name?: string;
+  before?: MiddlewareHook;
+  after?: MiddlewareHook;
+  onError?: MiddlewareHook;
+}
+
+export interface RouterOptions {
+  middlewares?: Middleware[];
+  /** Serve the generated OpenAPI document (GET /openapi.json unless `path` is set) */
+  openapi?: OpenApiOptions & { path?: string };
+  /** Extra or replacement request body parsers keyed by media type */
+  bodyParsers?: Record<string, BodyParser>;
+  /** Extra or replacement response serializers keyed by media type */
+  serializers?: Record<string, ResponseSerializer>;
+  /** Maximum request body size in bytes (default: 6 MB) */
+  maxBodySize?: number;
+  /** CORS policy applied to success, error and preflight responses */
+  cors?: CorsOptions;
+  /** Response compression for `Accept-Encoding` (enabled by default, `false` to disable) */
+  compression?: CompressionOptions | false;
+  /** Strong ETags and `If-None-Match` handling for GET/HEAD (default: true) */
+  etag?: boolean;
+  /** Default handler timeout in milliseconds for routes without `timeoutMs` */
+  timeoutMs?: number;
+  /** Time reserved before the Lambda deadline to return a 504 (default: 1000ms) */
+  timeoutMarginMs?: number;
+  /** Version for requests without `Accept-Version` (default: each route's lowest version) */
+  defaultVersion?: number;
+}
+
+// Error handling types
+export { HttpError, createErrorResponse } from './errors';
+
+/**
+ * Wrap handler data in a 200 response serialized for the `Accept` header
+ * (JSON by default). Responses that are already formatted are returned as-is.
+ */
+export const createSuccessResponse = (data: any, accept?: string): APIGatewayProxyResultV2 => {
   if (
     data &&
     typeof data === 'object' &&
@@ -111,35 +214,40 @@ export const createSuccessResponse = (data: any): APIGatewayProxyResultV2 => {
     return data;
   }
 
+  const mediaType = negotiateMediaType(accept);
+  if (!mediaType) {
+    throw new NotAcceptableError('Not acceptable', { supported: Object.keys(responseSerializers) });
+  }
+
   return {
     statusCode: 200,
-    headers: { 'Content-Type': 'application/json' },
-    body: typeof data === 'string' ? data : JSON.stringify(data),
+    headers: { 'Content-Type': mediaType },
+    body: serializeBody(data, mediaType),
   };
 };
 
 export const badRequest = (message: string, details?: any): never => {
-  throw new HttpError(400, message, details);
+  throw new BadRequestError(message, details);
 };
 
 export const unauthorized = (message: string = 'Unauthorized'): never => {
-  throw new HttpError(401, message);
+  throw new UnauthorizedError(message);
 };
 
 export const forbidden = (message: string = 'Forbidden'): never => {
-  throw new HttpError(403, message);
+  throw new ForbiddenError(message);
 };
 
 export const notFound = (message: string = 'Not found'): never => {
-  throw new HttpError(404, message);
+  throw new NotFoundError(message);
 };
 
 export const conflict = (message: string, details?: any): never => {
-  throw new HttpError(409, message, details);
+  throw new ConflictError(message, details);
 };
 
 export const internalError = (message: string = 'Internal server error', details?: any): never => {
-  throw new HttpError(500, message, details);
+  throw new InternalServerError(message, details);
 };
 
 export const ok = (data: any): APIGatewayProxyResultV2 => ({
@@ -0,0 +1,107 @@
+import { BadRequestError, NotAcceptableError } from './errors';
+import type { Route } from './types';
+
+export const ACCEPT_VERSION_HEADER = 'Accept-Version';
+
+export interface RouteDeprecation {
+  /**
+   * When the route was deprecated, sent as `Deprecation: @<epoch seconds>`; RFC 9745 has no
+   * date-less form, so it is required
+   */
+  since: Date | string;
+  /** When the route stops working, sent as `Sunset` (RFC 8594) */
+  sunset?: Date | string;
+  /** Migration guide, sent as `Link: <url>; rel="deprecation"` */
+  link?: string;
+}
+
+/**
+ * Parse an API version such as `2` or `v2`; undefined when the value is not a version
+ */
+export const parseVersion = (value: string): number | undefined => {
+  const match = /^v?(\d+)$/i.exec(value.trim());
+  return match ? Number(match[1]) : undefined;
+};
+
+/**
+ * Path a versioned route is also served under, e.g. `/v2/orders` for version 2 of `/orders`
+ */
+export const versionedPath = (route: Pick<Route, 'path' | 'version'>): string =>
+  route.version === undefined ? route.path : `/v${route.version}${route.path}`;
+
+const versionKey = (route: Pick<Route, 'method' | 'path'>) =>
+  `${route.method.toUpperCase()} ${route.path}`;
+
+/**
+ * Add a `/v{n}`-prefixed copy of every versioned route, pinned to its version
+ */
+export const expandVersionedRoutes = (routes: Route[]): Route[] => [
+  ...routes,
+  ...routes
+    .filter(route => route.version !== undefined)
+    .map(route => ({ ...route, path: versionedPath(route) })),
+];
+
+/**
+ * Group versioned routes sharing a method and path, lowest version first
+ */
+export const groupRouteVersions = (routes: Route[]): Map<string, Route[]> => {
+  const groups = new Map<string, Route[]>();
+
+  for (const route of routes) {
+    if (route.version === undefined) continue;
+    const group = groups.get(versionKey(route)) || [];
+    groups.set(
+      versionKey(route),
+      [...group, route].sort((a, b) => a.version! - b.version!)
+    );
+  }
+
+  return groups;
+};
+
+/**
+ * Pick the route version for an `Accept-Version` header.
+ * Without the header the newest version up to `defaultVersion` is used, falling back to
+ * the lowest version so clients that never sent the header keep their original behaviour.
+ */
+export const selectRouteVersion = (
+  groups: Map<string, Route[]>,
+  route: Route,
+  acceptVersion: string | undefined,
+  defaultVersion?: number
+): Route => {
+  const candidates = groups.get(versionKey(route));
+  if (!candidates) return route;
+
+  if (acceptVersion === undefined) {
+    const eligible = candidates.filter(
+      candidate => defaultVersion !== undefined && candidate.version! <= defaultVersion
+    );
+    return eligible[eligible.length - 1] || candidates[0];
+  }
+
+  const requested = parseVersion(acceptVersion);
+  if (requested === undefined) {
+    throw new BadRequestError(`Invalid ${ACCEPT_VERSION_HEADER} header: ${acceptVersion}`);
+  }
+
+  const selected = candidates.find(candidate => candidate.version === requested);
+  if (!selected) {
+    throw new NotAcceptableError(`API version ${requested} is not supported`, {
+      supported: candidates.map(candidate => candidate.version),
+    });
+  }
+  return selected;
+};
+
+const toHttpDate = (date: Date | string) => new Date(date).toUTCString();
+
+/**
+ * `Deprecation`, `Sunset` and `Link` headers for a deprecated route
+ */
+export const deprecationHeaders = (deprecation: RouteDeprecation): Record<string, string> => ({
+  Deprecation: `@${Math.floor(new Date(deprecation.since).getTime() / 1000)}`,
+  ...(deprecation.sunset && { Sunset: toHttpDate(deprecation.sunset) }),
+  ...(deprecation.link && { Link: `<${deprecation.link}>; rel="deprecation"` }),
+});
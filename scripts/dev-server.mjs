@@ -0,0 +1,289 @@
+#!/usr/bin/env node
+// Serve a service router over local HTTP, rebuilding and reloading it on change.
+// Usage: pnpm dev:server <auth|users|orders> [--port 3000] [--claims <json|file>] [--anonymous]
+//                        [--dynamodb-endpoint http://localhost:8000] [--no-watch]
+//
+// Requests become API Gateway HTTP API (v2) events with fake JWT claims. Per request,
+// `X-Dev-Claims: {"sub":"..."}` overrides claims and `X-Dev-Anonymous: true` drops them.
+
+import { spawn, spawnSync } from 'child_process';
+import { randomUUID } from 'crypto';
+import { existsSync, readFileSync, watch } from 'fs';
+import { createServer } from 'http';
+import { createRequire } from 'module';
+import { dirname, join, resolve } from 'path';
+import { parseArgs } from 'util';
+import { fileURLToPath } from 'url';
+
+const require = createRequire(import.meta.url);
+const rootDir = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const services = ['auth', 'users', 'orders'];
+
+const { values: options, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    port: { type: 'string', default: process.env.PORT || '3000' },
+    claims: { type: 'string' },
+    anonymous: { type: 'boolean', default: false },
+    'dynamodb-endpoint': { type: 'string', default: process.env.AWS_ENDPOINT_URL_DYNAMODB },
+    'no-watch': { type: 'boolean', default: false },
+  },
+});
+
+const service = positionals[0];
+if (!services.includes(service)) {
+  console.error(`Usage: pnpm dev:server <${services.join('|')}> [options]`);
+  process.exit(1);
+}
+
+const packageDir = join(rootDir, `packages/service-${service}`);
+const distDirs = [join(packageDir, 'dist'), join(rootDir, 'packages/shared-core/dist')];
+const tsc = join(rootDir, 'node_modules/.bin/tsc');
+
+// Local stand-ins for the environment the Lambda stack provides
+process.env.ENVIRONMENT ??= 'local';
+process.env.AWS_REGION ??= 'ap-southeast-1';
+process.env.TABLE_NAME ??= 'serverless-blueprint-local';
+process.env.CURSOR_SECRET ??= 'local-cursor-secret';
+process.env.COGNITO_USER_POOL_ID ??= 'local';
+process.env.USER_POOL_ID ??= 'local';
+process.env.CLIENT_ID ??= 'local';
+process.env.EVENT_BUS_NAME ??= 'local';
+if (options['dynamodb-endpoint']) {
+  process.env.AWS_ENDPOINT_URL_DYNAMODB = options['dynamodb-endpoint'];
+  // DynamoDB Local accepts any credentials
+  process.env.AWS_ACCESS_KEY_ID ??= 'local';
+  process.env.AWS_SECRET_ACCESS_KEY ??= 'local';
+}
+
+// Shaped like a Cognito ID token so typed claims parsing accepts them
+const defaultClaims = {
+  sub: '00000000-0000-4000-8000-000000000001',
+  token_use: 'id',
+  aud: 'local-client',
+  email: 'dev@example.com',
+  'cognito:username': 'dev',
+  ...(options.claims &&
+    JSON.parse(
+      existsSync(options.claims) ? readFileSync(options.claims, 'utf-8') : options.claims
+    )),
+};
+
+const TEXT_CONTENT_TYPES =
+  /^(text\/|application\/(json|.*\+json|xml|.*\+xml|x-www-form-urlencoded))/i;
+
+const build = () => spawnSync(tsc, ['--build', packageDir], { stdio: 'inherit' }).status === 0;
+
+// Ensure the single table exists on DynamoDB Local, mirroring the database stack's keys
+const ensureTable = async () => {
+  const dynamodb = require(
+    require.resolve('@aws-sdk/client-dynamodb', { paths: [join(rootDir, 'packages/shared-core')] })
+  );
+  const client = new dynamodb.DynamoDBClient({});
+  const TableName = process.env.TABLE_NAME;
+
+  try {
+    await client.send(new dynamodb.DescribeTableCommand({ TableName }));
+  } catch (error) {
+    if (error.name !== 'ResourceNotFoundException') throw error;
+
+    const key = (partition, sort) => [
+      { AttributeName: partition, KeyType: 'HASH' },
+      { AttributeName: sort, KeyType: 'RANGE' },
+    ];
+    await client.send(
+      new dynamodb.CreateTableCommand({
+        TableName,
+        BillingMode: 'PAY_PER_REQUEST',
+        AttributeDefinitions: ['PK', 'SK', 'GSI1PK', 'GSI1SK'].map(AttributeName => ({
+          AttributeName,
+          AttributeType: 'S',
+        })),
+        KeySchema: key('PK', 'SK'),
+        GlobalSecondaryIndexes: [
+          {
+            IndexName: 'GSI1',
+            KeySchema: key('GSI1PK', 'GSI1SK'),
+            Projection: { ProjectionType: 'ALL' },
+          },
+        ],
+      })
+    );
+    console.log(`🗄️  Created table ${TableName} on ${process.env.AWS_ENDPOINT_URL_DYNAMODB}`);
+  }
+};
+
+let handler;
+
+const loadHandler = () => {
+  handler ??= require(join(packageDir, 'dist/index.js')).handler;
+  return handler;
+};
+
+// Drop compiled modules from the require cache so the next request loads the new build
+const invalidate = () => {
+  for (const file of Object.keys(require.cache)) {
+    if (distDirs.some(dir => file.startsWith(dir))) delete require.cache[file];
+  }
+  handler = undefined;
+};
+
+const readBody = request =>
+  new Promise((resolveBody, reject) => {
+    const chunks = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => resolveBody(Buffer.concat(chunks)));
+    request.on('error', reject);
+  });
+
+const toEvent = (request, url, body) => {
+  const headers = {};
+  for (const [name, value] of Object.entries(request.headers)) {
+    headers[name] = Array.isArray(value) ? value.join(',') : value;
+  }
+
+  const claimOverrides = headers['x-dev-claims'] && JSON.parse(headers['x-dev-claims']);
+  const anonymous = options.anonymous || headers['x-dev-anonymous'] === 'true';
+  delete headers['x-dev-claims'];
+  delete headers['x-dev-anonymous'];
+
+  const queryStringParameters = {};
+  for (const name of new Set(url.searchParams.keys())) {
+    queryStringParameters[name] = url.searchParams.getAll(name).join(',');
+  }
+
+  const isBase64Encoded =
+    body.length > 0 && !TEXT_CONTENT_TYPES.test(headers['content-type'] || '');
+  const now = new Date();
+
+  return {
+    version: '2.0',
+    routeKey: '$default',
+    rawPath: url.pathname,
+    rawQueryString: url.search.slice(1),
+    cookies: headers.cookie?.split(/;\s*/),
+    headers,
+    queryStringParameters: url.search ? queryStringParameters : undefined,
+    requestContext: {
+      accountId: '000000000000',
+      apiId: 'local',
+      domainName: headers.host || 'localhost',
+      domainPrefix: 'local',
+      http: {
+        method: request.method,
+        path: url.pathname,
+        protocol: `HTTP/${request.httpVersion}`,
+        sourceIp: request.socket.remoteAddress?.replace(/^::ffff:/, '') || '127.0.0.1',
+        userAgent: headers['user-agent'] || '',
+      },
+      requestId: randomUUID(),
+      routeKey: '$default',
+      stage: '$default',
+      time: now.toUTCString(),
+      timeEpoch: now.getTime(),
+      ...(!anonymous && {
+        authorizer: { jwt: { claims: { ...defaultClaims, ...claimOverrides }, scopes: null } },
+      }),
+    },
+    body: body.length > 0 ? body.toString(isBase64Encoded ? 'base64' : 'utf-8') : undefined,
+    isBase64Encoded,
+  };
+};
+
+// API Gateway's integration timeout
+const INVOCATION_TIMEOUT_MS = 29_000;
+
+const toContext = requestId => {
+  const deadline = Date.now() + INVOCATION_TIMEOUT_MS;
+  return {
+    callbackWaitsForEmptyEventLoop: false,
+    functionName: `${service}-local`,
+    functionVersion: '$LATEST',
+    invokedFunctionArn: `arn:aws:lambda:${process.env.AWS_REGION}:000000000000:function:${service}-local`,
+    memoryLimitInMB: '512',
+    awsRequestId: requestId,
+    logGroupName: `/aws/lambda/${service}-local`,
+    logStreamName: 'local',
+    getRemainingTimeInMillis: () => Math.max(0, deadline - Date.now()),
+    done: () => {},
+    fail: () => {},
+    succeed: () => {},
+  };
+};
+
+const writeResult = (response, result) => {
+  // Lambda results may also be a bare body, which API Gateway returns as JSON
+  const structured =
+    result && typeof result === 'object' && 'statusCode' in result
+      ? result
+      : {
+          statusCode: 200,
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(result),
+        };
+
+  for (const [name, value] of Object.entries(structured.headers || {})) {
+    response.setHeader(name, String(value));
+  }
+  if (structured.cookies?.length) {
+    response.setHeader('Set-Cookie', structured.cookies);
+  }
+  response.statusCode = structured.statusCode || 200;
+  response.end(
+    structured.body
+      ? Buffer.from(structured.body, structured.isBase64Encoded ? 'base64' : 'utf-8')
+      : undefined
+  );
+};
+
+const server = createServer(async (request, response) => {
+  const startTime = Date.now();
+  const url = new URL(request.url || '/', 'http://localhost');
+
+  try {
+    const event = toEvent(request, url, await readBody(request));
+    const result = await loadHandler()(event, toContext(event.requestContext.requestId));
+    writeResult(response, result);
+  } catch (error) {
+    console.error(error);
+    response.statusCode = 502;
+    response.setHeader('Content-Type', 'application/json');
+    response.end(JSON.stringify({ message: 'Internal server error' }));
+  }
+
+  console.log(
+    `${request.method} ${url.pathname} -> ${response.statusCode} (${Date.now() - startTime}ms)`
+  );
+});
+
+if (!build()) process.exit(1);
+if (options['dynamodb-endpoint']) await ensureTable();
+
+let compiler;
+if (!options['no-watch']) {
+  compiler = spawn(tsc, ['--build', '--watch', '--preserveWatchOutput', packageDir], {
+    stdio: ['ignore', 'inherit', 'inherit'],
+  });
+
+  let reloadTimer;
+  for (const dir of distDirs) {
+    watch(dir, { recursive: true }, () => {
+      clearTimeout(reloadTimer);
+      reloadTimer = setTimeout(() => {
+        invalidate();
+        console.log(`♻️  Reloaded ${service} service`);
+      }, 200);
+    });
+  }
+}
+
+server.listen(Number(options.port), () => {
+  console.log(`🚀 ${service} service listening on http://localhost:${options.port}`);
+});
+
+const shutdown = () => {
+  compiler?.kill();
+  server.close(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
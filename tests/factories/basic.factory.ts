@@ -1,3 +1,5 @@
+import { Order } from '../../packages/service-orders/src/schemas';
+
 // Simple factory example for Phase 3
 export const createMockUser = (overrides: Partial<any> = {}) => ({
   id: 'user-123',
@@ -13,3 +15,36 @@ export const createMockRequest = (overrides: Partial<any> = {}) => ({
   body: null,
   ...overrides,
 });
+
+/**
+ * A stored order that satisfies the orders response schema
+ */
+export const createMockOrder = (overrides: Partial<Order> = {}): Order => ({
+  orderId: '3f1c2a4e-5b6d-4e7f-8a9b-0c1d2e3f4a5b',
+  userId: 'user-1',
+  status: 'PENDING',
+  items: [
+    {
+      productId: '7a8b9c0d-1e2f-4a3b-8c4d-5e6f7a8b9c0d',
+      productName: 'Widget',
+      price: 5,
+      quantity: 2,
+      subtotal: 10,
+    },
+  ],
+  shippingAddress: {
+    firstName: 'Jane',
+    lastName: 'Doe',
+    street: '1 Main St',
+    city: 'Singapore',
+    state: 'SG',
+    zipCode: '018956',
+    country: 'SG',
+  },
+  paymentInfo: { method: 'credit_card', lastFourDigits: '4242', paymentId: 'pay-1', amount: 10 },
+  total: 10,
+  itemCount: 2,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Context } from 'aws-lambda';
+import { createHmac } from 'crypto';
+
+const loadAuth = async () => {
+  const handlers = await import('../../../../packages/service-auth/src/handlers/auth');
+  const { cognitoClient } = await import(
+    '../../../../packages/service-auth/src/handlers/shared/utils'
+  );
+  return { handlers, send: vi.spyOn(cognitoClient, 'send') };
+};
+
+const sentInput = (send: { mock: { calls: any[][] } }) => send.mock.calls[0][0].input;
+
+const context = (body: Record<string, unknown>) =>
+  ({
+    event: { body },
+    context: {} as Context,
+    signal: new AbortController().signal,
+  }) as any;
+
+describe('Auth token refresh and logout', () => {
+  beforeEach(() => {
+    vi.stubEnv('USER_POOL_ID', 'ap-southeast-1_TestPool');
+    vi.stubEnv('CLIENT_ID', 'app-client');
+    vi.stubEnv('CLIENT_SECRET', 'client-secret');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('refreshTokenHandler', () => {
+    it('should return new tokens, keeping the submitted refresh token', async () => {
+      const { handlers, send } = await loadAuth();
+      send.mockResolvedValueOnce({
+        AuthenticationResult: { AccessToken: 'access', IdToken: 'id', ExpiresIn: 3600 },
+      } as never);
+
+      const response = await handlers.refreshTokenHandler(
+        context({ refreshToken: 'refresh', username: 'user-sub' })
+      );
+
+      expect(JSON.parse(response.body)).toEqual({
+        tokens: { accessToken: 'access', idToken: 'id', refreshToken: 'refresh', expiresIn: 3600 },
+      });
+      expect(sentInput(send)).toEqual({
+        AuthFlow: 'REFRESH_TOKEN_AUTH',
+        ClientId: 'app-client',
+        AuthParameters: {
+          REFRESH_TOKEN: 'refresh',
+          SECRET_HASH: createHmac('SHA256', 'client-secret')
+            .update('user-subapp-client')
+            .digest('base64'),
+        },
+      });
+    });
+
+    it('should return a rotated refresh token', async () => {
+      const { handlers, send } = await loadAuth();
+      send.mockResolvedValueOnce({
+        AuthenticationResult: {
+          AccessToken: 'access',
+          IdToken: 'id',
+          RefreshToken: 'rotated',
+          ExpiresIn: 3600,
+        },
+      } as never);
+
+      const response = await handlers.refreshTokenHandler(
+        context({ refreshToken: 'refresh', username: 'user-sub' })
+      );
+
+      expect(JSON.parse(response.body).tokens.refreshToken).toBe('rotated');
+    });
+
+    it('should require the username when the client has a secret', async () => {
+      const { handlers, send } = await loadAuth();
+
+      await expect(
+        handlers.refreshTokenHandler(context({ refreshToken: 'refresh' }))
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(send).not.toHaveBeenCalled();
+    });
+
+    it('should refresh without a secret hash for public clients', async () => {
+      vi.stubEnv('CLIENT_SECRET', undefined);
+      const { handlers, send } = await loadAuth();
+      send.mockResolvedValueOnce({
+        AuthenticationResult: { AccessToken: 'access', IdToken: 'id', ExpiresIn: 3600 },
+      } as never);
+
+      await handlers.refreshTokenHandler(context({ refreshToken: 'refresh' }));
+
+      expect(sentInput(send).AuthParameters).toEqual({
+        REFRESH_TOKEN: 'refresh',
+      });
+    });
+
+    it('should map revoked or expired refresh tokens to 401', async () => {
+      const { handlers, send } = await loadAuth();
+      send.mockRejectedValueOnce(
+        Object.assign(new Error('Refresh Token has been revoked'), {
+          name: 'NotAuthorizedException',
+          $fault: 'client',
+          $metadata: {},
+        }) as never
+      );
+
+      await expect(
+        handlers.refreshTokenHandler(context({ refreshToken: 'revoked', username: 'user-sub' }))
+      ).rejects.toMatchObject({ statusCode: 401 });
+    });
+  });
+
+  describe('logoutHandler', () => {
+    it('should revoke the refresh token and answer 204', async () => {
+      const { handlers, send } = await loadAuth();
+      send.mockResolvedValueOnce({} as never);
+
+      const response = await handlers.logoutHandler(context({ refreshToken: 'refresh' }));
+
+      expect(response.statusCode).toBe(204);
+      expect(sentInput(send)).toEqual({
+        Token: 'refresh',
+        ClientId: 'app-client',
+        ClientSecret: 'client-secret',
+      });
+    });
+  });
+});
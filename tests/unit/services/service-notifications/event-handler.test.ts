@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Context, SQSEvent, SQSRecord } from 'aws-lambda';
+
+const loadEventHandler = async () => {
+  const { NotificationService } = await import(
+    '../../../../packages/service-notifications/src/services/notification-service'
+  );
+  const processBatch = vi
+    .spyOn(NotificationService.prototype, 'processBatchNotifications')
+    .mockResolvedValue([]);
+  const { handleNotificationEvents } = await import(
+    '../../../../packages/service-notifications/src/handlers/event-handler'
+  );
+  return { handleNotificationEvents, processBatch };
+};
+
+const sqsRecord = (messageId: string, body: unknown): SQSRecord =>
+  ({
+    messageId,
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+    eventSource: 'aws:sqs',
+    eventSourceARN: 'arn:aws:sqs:ap-southeast-1:123456789012:notification-queue',
+  }) as SQSRecord;
+
+const envelope = (detailType: string, detail: unknown) => ({
+  version: '0',
+  id: 'event-1',
+  'detail-type': detailType,
+  source: 'orders.service',
+  account: '123456789012',
+  time: '2024-01-01T00:00:00Z',
+  region: 'ap-southeast-1',
+  resources: [],
+  detail,
+});
+
+const orderCreated = {
+  orderId: 'order-1',
+  userId: 'user-1',
+  status: 'PENDING',
+  total: 42.5,
+  itemCount: 2,
+  items: [{ productId: 'p-1', quantity: 2 }],
+};
+
+const batch = (...records: SQSRecord[]): SQSEvent => ({ Records: records });
+
+describe('handleNotificationEvents', () => {
+  const context = { awsRequestId: 'request-1' } as Context;
+
+  beforeEach(() => {
+    vi.stubEnv('ENABLE_MOCK_NOTIFICATIONS', 'true');
+    vi.stubEnv('DEFAULT_USER_EMAIL', 'customer@example.com');
+    vi.stubEnv('DEFAULT_USER_PHONE', '+6591234567');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should send order confirmations for ORDER_CREATED events', async () => {
+    const { handleNotificationEvents, processBatch } = await loadEventHandler();
+
+    const response = await handleNotificationEvents(
+      batch(sqsRecord('m-1', envelope('ORDER_CREATED', orderCreated))),
+      context
+    );
+
+    expect(response).toEqual({ batchItemFailures: [] });
+    expect(processBatch).toHaveBeenCalledWith([
+      expect.objectContaining({
+        channel: 'EMAIL',
+        recipient: 'customer@example.com',
+        subject: 'Order Confirmation - #order-1',
+        payload: expect.objectContaining({ orderId: 'order-1', total: 42.5, itemCount: 2 }),
+      }),
+      expect.objectContaining({ channel: 'SMS', recipient: '+6591234567' }),
+    ]);
+  });
+
+  it('should unwrap details published as { data }', async () => {
+    const { handleNotificationEvents, processBatch } = await loadEventHandler();
+
+    await handleNotificationEvents(
+      batch(sqsRecord('m-1', envelope('ORDER_CREATED', { data: orderCreated }))),
+      context
+    );
+
+    expect(processBatch.mock.calls[0][0][0].payload).toMatchObject({ orderId: 'order-1' });
+  });
+
+  it('should report invalid details and malformed messages as batch item failures', async () => {
+    const { handleNotificationEvents, processBatch } = await loadEventHandler();
+
+    const response = await handleNotificationEvents(
+      batch(
+        sqsRecord('invalid', envelope('ORDER_CREATED', { orderId: 'order-1' })),
+        sqsRecord('not-json', '{"detail-type":'),
+        sqsRecord('not-an-envelope', { orderId: 'order-1' }),
+        sqsRecord('valid', envelope('ORDER_CREATED', orderCreated))
+      ),
+      context
+    );
+
+    expect(response).toEqual({
+      batchItemFailures: [
+        { itemIdentifier: 'invalid' },
+        { itemIdentifier: 'not-json' },
+        { itemIdentifier: 'not-an-envelope' },
+      ],
+    });
+    expect(processBatch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry only the messages whose notifications failed', async () => {
+    const { handleNotificationEvents, processBatch } = await loadEventHandler();
+    processBatch.mockRejectedValueOnce(new Error('SES unavailable'));
+
+    const response = await handleNotificationEvents(
+      batch(
+        sqsRecord('failed', envelope('ORDER_CREATED', orderCreated)),
+        sqsRecord('sent', envelope('ORDER_CREATED', { ...orderCreated, orderId: 'order-2' }))
+      ),
+      context
+    );
+
+    expect(response).toEqual({ batchItemFailures: [{ itemIdentifier: 'failed' }] });
+  });
+
+  it('should ignore other event types', async () => {
+    const { handleNotificationEvents, processBatch } = await loadEventHandler();
+
+    const response = await handleNotificationEvents(
+      batch(sqsRecord('m-1', envelope('ORDER_SHIPPED', orderCreated))),
+      context
+    );
+
+    expect(response).toEqual({ batchItemFailures: [] });
+    expect(processBatch).not.toHaveBeenCalled();
+  });
+});
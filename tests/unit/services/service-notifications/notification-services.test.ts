@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Logger } from '@aws-lambda-powertools/logger';
+
+const loadServices = async () => ({
+  ...(await import('../../../../packages/service-notifications/src/services/email-service')),
+  ...(await import('../../../../packages/service-notifications/src/services/sms-service')),
+});
+
+describe('Notification channel services', () => {
+  let info: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    info = vi.spyOn(Logger.prototype, 'info');
+    vi.stubEnv('AWS_REGION', 'eu-west-1');
+    vi.stubEnv('SMS_SENDER_ID', 'Shop');
+    vi.stubEnv('NODE_ENV', 'development');
+    vi.stubEnv('ENABLE_MOCK_NOTIFICATIONS', undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should take SMS defaults from the service config', async () => {
+    const { SMSService } = await loadServices();
+
+    new SMSService();
+
+    expect(info).toHaveBeenCalledWith('SMSService initialized', {
+      region: 'eu-west-1',
+      senderId: 'Shop',
+      mockMode: true,
+    });
+  });
+
+  it('should take email defaults from the service config unless overridden', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('ENABLE_MOCK_NOTIFICATIONS', 'true');
+    const { EmailService } = await loadServices();
+
+    new EmailService({ fromAddress: 'orders@example.com' });
+    new EmailService({ fromAddress: 'orders@example.com', region: 'us-east-1', mockMode: false });
+
+    expect(info).toHaveBeenCalledWith('EmailService initialized', {
+      region: 'eu-west-1',
+      fromAddress: 'orders@example.com',
+      mockMode: true,
+    });
+    expect(info).toHaveBeenCalledWith('EmailService initialized', {
+      region: 'us-east-1',
+      fromAddress: 'orders@example.com',
+      mockMode: false,
+    });
+  });
+
+  it('should reject an invalid environment', async () => {
+    vi.stubEnv('ENABLE_MOCK_NOTIFICATIONS', 'maybe');
+    const { SMSService } = await loadServices();
+
+    expect(() => new SMSService()).toThrow('ENABLE_MOCK_NOTIFICATIONS');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Context } from 'aws-lambda';
+import { createMockEventWithJWT } from '../../../helpers/api-gateway-event';
+import { createMockOrder } from '../../../factories/basic.factory';
+
+const order = createMockOrder();
+const { orderId } = order;
+
+const loadOrders = async () => {
+  const core = await import('@shared/core');
+  const handlers = await import('../../../../packages/service-orders/src/handlers');
+  const { handler } = await import('../../../../packages/service-orders/src/router');
+  return { core, handlers, handler, send: vi.spyOn(core.AWSClients.dynamoDB, 'send') };
+};
+
+const getOrder = (sub?: string, id = orderId) =>
+  createMockEventWithJWT(
+    'GET',
+    `/orders/${id}`,
+    undefined,
+    sub && { sub, token_use: 'access', client_id: 'app-client' }
+  );
+
+describe('Get order', () => {
+  const mockContext = { getRemainingTimeInMillis: () => 30000 } as Context;
+
+  beforeEach(() => {
+    vi.stubEnv('TABLE_NAME', 'orders-table');
+    vi.stubEnv('CURSOR_SECRET', 'cursor-secret');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should return the order to its owner with a single GetItem', async () => {
+    const { core, handler, send } = await loadOrders();
+    send.mockResolvedValue({ Item: core.marshall(order) } as never);
+
+    const response = await handler(getOrder('user-1'), mockContext);
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body!)).toMatchObject({ success: true, data: { orderId } });
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send.mock.calls[0][0]).toBeInstanceOf(core.GetItemCommand);
+  });
+
+  it("should answer 403 for another user's order", async () => {
+    const { core, handler, send } = await loadOrders();
+    send.mockResolvedValue({ Item: core.marshall(order) } as never);
+
+    const response = await handler(getOrder('user-2'), mockContext);
+
+    expect(response.statusCode).toBe(403);
+  });
+
+  it('should answer 404 for missing orders', async () => {
+    const { handler, send } = await loadOrders();
+    send.mockResolvedValue({} as never);
+
+    const response = await handler(getOrder('user-1'), mockContext);
+
+    expect(response.statusCode).toBe(404);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should answer 401 without reading the order for anonymous callers', async () => {
+    const { handler, send } = await loadOrders();
+
+    const response = await handler(getOrder(), mockContext);
+
+    expect(response.statusCode).toBe(401);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should answer 400 without reading the order for malformed ids', async () => {
+    const { handler, send } = await loadOrders();
+
+    const response = await handler(getOrder('user-1', 'abc'), mockContext);
+
+    expect(response.statusCode).toBe(400);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  describe('orderOwnership', () => {
+    it('should compare the caller with the order owner', async () => {
+      const { core, handlers, send } = await loadOrders();
+      send.mockResolvedValue({ Item: core.marshall(order) } as never);
+      const request = (userId?: string) => ({
+        event: { pathParameters: { orderId } } as any,
+        context: mockContext,
+        signal: new AbortController().signal,
+        principal: {} as any,
+        userId,
+      });
+
+      expect(await handlers.orderOwnership.check(request('user-1'))).toBe(true);
+      expect(await handlers.orderOwnership.check(request('user-2'))).toBe(false);
+      expect(await handlers.orderOwnership.check(request())).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Context } from 'aws-lambda';
+import { createMockEventWithJWT } from '../../../helpers/api-gateway-event';
+import { createMockOrder } from '../../../factories/basic.factory';
+
+const loadListOrders = async () => {
+  const core = await import('@shared/core');
+  const { listOrdersHandler } = await import('../../../../packages/service-orders/src/handlers');
+  return { core, listOrdersHandler, send: vi.spyOn(core.AWSClients.dynamoDB, 'send') };
+};
+
+const listOrders = (sub: string, query: { limit: number; cursor?: string }) => ({
+  event: {
+    ...createMockEventWithJWT('GET', '/orders', undefined, { sub }),
+    queryStringParameters: query,
+  } as any,
+  context: {} as Context,
+  signal: new AbortController().signal,
+});
+
+describe('listOrdersHandler', () => {
+  const order = createMockOrder();
+  const lastKey = { PK: 'ORDER#1', SK: 'DETAILS', GSI1PK: 'USER#user-1', GSI1SK: 'ORDER#1' };
+
+  beforeEach(() => {
+    vi.stubEnv('TABLE_NAME', 'orders-table');
+    vi.stubEnv('CURSOR_SECRET', 'cursor-secret');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("should return the caller's orders with a cursor for the next page", async () => {
+    const { core, listOrdersHandler, send } = await loadListOrders();
+    send.mockResolvedValueOnce({
+      Items: [core.marshall(order)],
+      LastEvaluatedKey: core.marshall(lastKey),
+    } as never);
+
+    const response = await listOrdersHandler(listOrders('user-1', { limit: 1 }));
+    const body = JSON.parse(response.body);
+
+    expect(response.statusCode).toBe(200);
+    expect(body).toMatchObject({ success: true, data: [order], pagination: { limit: 1 } });
+    expect(body.pagination.nextCursor).toEqual(expect.any(String));
+    expect((send.mock.calls[0][0] as any).input.ExpressionAttributeValues).toEqual(
+      core.marshall({ ':pk': 'USER#user-1', ':sk': 'ORDER#' })
+    );
+  });
+
+  it('should resume from the cursor for the same user', async () => {
+    const { core, listOrdersHandler, send } = await loadListOrders();
+    send
+      .mockResolvedValueOnce({ Items: [], LastEvaluatedKey: core.marshall(lastKey) } as never)
+      .mockResolvedValueOnce({ Items: [] } as never);
+
+    const first = await listOrdersHandler(listOrders('user-1', { limit: 1 }));
+    const { nextCursor } = JSON.parse(first.body).pagination;
+    const second = await listOrdersHandler(listOrders('user-1', { limit: 1, cursor: nextCursor }));
+
+    expect(JSON.parse(second.body).pagination.nextCursor).toBeNull();
+    expect((send.mock.calls[1][0] as any).input.ExclusiveStartKey).toEqual(core.marshall(lastKey));
+  });
+
+  it("should reject another user's cursor with 400", async () => {
+    const { core, listOrdersHandler, send } = await loadListOrders();
+    send.mockResolvedValueOnce({ Items: [], LastEvaluatedKey: core.marshall(lastKey) } as never);
+
+    const first = await listOrdersHandler(listOrders('user-1', { limit: 1 }));
+    const { nextCursor } = JSON.parse(first.body).pagination;
+
+    await expect(
+      listOrdersHandler(listOrders('user-2', { limit: 1, cursor: nextCursor }))
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should sign cursors with the secret resolved from Secrets Manager', async () => {
+    vi.stubEnv('CURSOR_SECRET', 'secretsmanager:test/pagination/cursor-secret');
+    const { core, listOrdersHandler, send } = await loadListOrders();
+    const get = vi.fn(async () => 'resolved-secret');
+    core.setSecretsProvider({ get, invalidate: vi.fn() });
+    send.mockResolvedValueOnce({ Items: [], LastEvaluatedKey: core.marshall(lastKey) } as never);
+
+    const response = await listOrdersHandler(listOrders('user-1', { limit: 1 }));
+    const { nextCursor } = JSON.parse(response.body).pagination;
+
+    expect(get).toHaveBeenCalledWith('secretsmanager:test/pagination/cursor-secret');
+    expect(
+      core.createCursorCodec({ secret: 'resolved-secret' }).decode(nextCursor, 'user-1')
+    ).toEqual(lastKey);
+    core.setSecretsProvider();
+  });
+
+  it('should answer 401 without a caller', async () => {
+    const { listOrdersHandler } = await loadListOrders();
+    const ctx = listOrders('user-1', { limit: 1 });
+    ctx.event.requestContext = { ...ctx.event.requestContext, authorizer: undefined };
+
+    await expect(listOrdersHandler(ctx)).rejects.toMatchObject({ statusCode: 401 });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DynamoDBClient, marshall, toHttpError } from '@shared/core';
+import { OrderService } from '../../../../packages/service-orders/src/services';
+import { createMockOrder } from '../../../factories/basic.factory';
+
+const awsError = (name: string) =>
+  Object.assign(new Error(name), { name, $fault: 'client', $metadata: {} });
+
+describe('OrderService', () => {
+  const send = vi.fn();
+  const service = new OrderService({ send } as unknown as DynamoDBClient, 'orders-table');
+  const { items, shippingAddress, paymentInfo } = createMockOrder();
+
+  describe('createOrder', () => {
+    it('should rethrow DynamoDB errors so they map to their HTTP status', async () => {
+      const error = awsError('ConditionalCheckFailedException');
+      send.mockRejectedValueOnce(error);
+
+      const thrown = await service
+        .createOrder('user-1', { items, shippingAddress, paymentInfo })
+        .catch(e => e);
+
+      expect(thrown).toBe(error);
+      expect(toHttpError(thrown).statusCode).toBe(409);
+    });
+
+    it('should store orders without optional notes', async () => {
+      send.mockResolvedValueOnce({});
+
+      const order = await service.createOrder('user-1', { items, shippingAddress, paymentInfo });
+
+      expect(order).toMatchObject({ userId: 'user-1', status: 'PENDING', total: 10 });
+      expect(send.mock.calls[0][0].input.Item).not.toHaveProperty('notes');
+    });
+  });
+
+  describe('getOrderById', () => {
+    it('should rethrow DynamoDB errors so they map to their HTTP status', async () => {
+      const error = awsError('ProvisionedThroughputExceededException');
+      send.mockRejectedValueOnce(error);
+
+      const thrown = await service.getOrderById('order-1').catch(e => e);
+
+      expect(thrown).toBe(error);
+      expect(toHttpError(thrown).statusCode).toBe(429);
+    });
+  });
+
+  describe('listOrdersByUser', () => {
+    it('should query the user partition of GSI1, newest first', async () => {
+      const order = createMockOrder();
+      const lastKey = { PK: 'ORDER#1', SK: 'DETAILS', GSI1PK: 'USER#user-1', GSI1SK: 'ORDER#1' };
+      send.mockResolvedValueOnce({ Items: [marshall(order)], LastEvaluatedKey: marshall(lastKey) });
+
+      const page = await service.listOrdersByUser('user-1', { limit: 10, startKey: lastKey });
+
+      expect(page).toEqual({ orders: [order], lastEvaluatedKey: lastKey });
+      expect(send.mock.calls[0][0].input).toMatchObject({
+        TableName: 'orders-table',
+        IndexName: 'GSI1',
+        ExpressionAttributeValues: marshall({ ':pk': 'USER#user-1', ':sk': 'ORDER#' }),
+        ExclusiveStartKey: marshall(lastKey),
+        ScanIndexForward: false,
+        Limit: 10,
+      });
+    });
+
+    it('should rethrow DynamoDB errors so they map to their HTTP status', async () => {
+      const error = awsError('ThrottlingException');
+      send.mockRejectedValueOnce(error);
+
+      const thrown = await service.listOrdersByUser('user-1', { limit: 10 }).catch(e => e);
+
+      expect(thrown).toBe(error);
+      expect(toHttpError(thrown).statusCode).toBe(429);
+    });
+  });
+});
@@ -95,9 +95,9 @@ describe('Users Service Router', () => {
 
       // Router catches errors and returns error response
       expect(result.statusCode).toBe(500);
-      expect(result.headers?.['Content-Type']).toBe('application/json');
+      expect(result.headers?.['Content-Type']).toBe('application/problem+json');
       expect(JSON.parse(result.body!)).toMatchObject({
-        error: 'Internal server error',
+        detail: 'Internal server error',
       });
 
       // Check that handler was called
@@ -125,7 +125,7 @@ describe('Users Service Router', () => {
       // Should handle malformed JSON gracefully
       expect(result.statusCode).toBe(400);
       expect(JSON.parse(result.body!)).toMatchObject({
-        error: 'Invalid request body format',
+        detail: 'Invalid request body format',
       });
     });
   });
@@ -153,12 +153,12 @@ describe('Users Service Router', () => {
 
       expect(result.statusCode).toBe(404);
       expect(JSON.parse(result.body!)).toMatchObject({
-        error: 'Route not found: GET /unknown',
+        detail: 'Route not found: GET /unknown',
       });
       expect(handlers.getUserProfileHandler).not.toHaveBeenCalled();
     });
 
-    it('should handle different HTTP methods', async () => {
+    it('should return 405 for unsupported HTTP methods', async () => {
       const mockEvent = createMockEvent({
         routeKey: 'POST /users/profile',
         headers: {},
@@ -176,9 +176,10 @@ describe('Users Service Router', () => {
 
       const result = await handler(mockEvent, mockContext);
 
-      expect(result.statusCode).toBe(404);
+      expect(result.statusCode).toBe(405);
+      expect((result.headers as Record<string, string>).Allow).toBe('GET, HEAD, OPTIONS');
       expect(JSON.parse(result.body!)).toMatchObject({
-        error: 'Route not found: POST /users/profile',
+        detail: 'Method not allowed: POST /users/profile',
       });
     });
   });
@@ -0,0 +1,248 @@
+import {
+  anyOf,
+  createDynamoRoleResolver,
+  createRouter,
+  DynamoDBClient,
+  getGroups,
+  getScopes,
+  marshall,
+  requireGroups,
+  requireOwnership,
+  requirePrincipalType,
+  requireRole,
+  requireScopes,
+  Route,
+} from '@shared/core';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { Context } from 'aws-lambda';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { createMockEventWithJWT } from '../../helpers/api-gateway-event';
+
+describe('Authorization', () => {
+  const mockContext = {} as Context;
+  const owners: Record<string, string> = { 'order-1': 'user-1' };
+  const handler = vi.fn(() => ({ ok: true }));
+  const resolveRole = vi.fn(async (userId: string) =>
+    userId === 'admin-1' ? 'admin' : 'customer'
+  );
+
+  const routes: Route[] = [
+    { method: 'GET', path: '/reports', handler, authorize: [requireScopes('reports:read')] },
+    {
+      method: 'POST',
+      path: '/reports',
+      handler,
+      schema: { body: z.object({ name: z.string() }) },
+      authorize: [requireScopes('reports:write')],
+    },
+    { method: 'GET', path: '/support', handler, authorize: [requireGroups('support', 'admin')] },
+    { method: 'GET', path: '/admin', handler, authorize: [requireRole('admin', { resolveRole })] },
+    {
+      method: 'GET',
+      path: '/orders/{orderId}',
+      handler,
+      authorize: [
+        anyOf(
+          requireOwnership(async ({ event }) => owners[event.pathParameters.orderId]),
+          requireRole('admin', { resolveRole })
+        ),
+      ],
+    },
+    { method: 'POST', path: '/internal/sync', handler, authorize: [requirePrincipalType('iam')] },
+    { method: 'GET', path: '/public', handler },
+  ];
+  const router = createRouter(routes);
+
+  // Claims default to a Cognito access token
+  const call = (path: string, claims?: Record<string, any>) =>
+    router(
+      createMockEventWithJWT(
+        'GET',
+        path,
+        undefined,
+        claims && { token_use: 'access', client_id: 'app-client', ...claims }
+      ),
+      mockContext
+    );
+
+  const callWithAuthorizer = (
+    method: string,
+    path: string,
+    authorizer: { lambda?: Record<string, any>; iam?: Record<string, any> }
+  ) => {
+    const event = createMockEventWithJWT(method, path);
+    return router(
+      { ...event, requestContext: { ...event.requestContext, authorizer: authorizer as any } },
+      mockContext
+    );
+  };
+
+  const iam = {
+    accessKey: 'ASIAEXAMPLE',
+    accountId: '123456789012',
+    callerId: 'AROAEXAMPLE:orders',
+    sourceIp: '10.0.0.1',
+    user: 'AROAEXAMPLE:orders',
+    userAgent: 'aws-sdk-js',
+    userArn: 'arn:aws:sts::123456789012:assumed-role/orders-service/orders',
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    handler.mockClear();
+  });
+
+  describe('claim helpers', () => {
+    it('should read scopes and groups from flattened or array claims', () => {
+      const event = createMockEventWithJWT('GET', '/', undefined, {
+        sub: 'user-1',
+        scope: 'orders:read orders:write',
+        'cognito:groups': '[admin support]',
+      });
+
+      expect(getScopes(event)).toEqual(['orders:read', 'orders:write']);
+      expect(getGroups(event)).toEqual(['admin', 'support']);
+      expect(
+        getGroups(createMockEventWithJWT('GET', '/', undefined, { 'cognito:groups': ['ops'] }))
+      ).toEqual(['ops']);
+    });
+  });
+
+  it('should answer 401 without JWT claims', async () => {
+    const response = await call('/reports');
+
+    expect(response.statusCode).toBe(401);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should answer 401 before parsing or validating the body', async () => {
+    const event = createMockEventWithJWT('POST', '/reports', { name: 42 });
+    const unsupported = {
+      ...event,
+      headers: { ...event.headers, 'content-type': 'application/x-unknown' },
+    };
+
+    expect((await router(event, mockContext)).statusCode).toBe(401);
+    expect((await router(unsupported, mockContext)).statusCode).toBe(401);
+
+    const denied = createMockEventWithJWT('POST', '/reports', 'not json', {
+      sub: 'user-1',
+      token_use: 'access',
+      client_id: 'app-client',
+    });
+    expect((await router(denied, mockContext)).statusCode).toBe(403);
+  });
+
+  it('should require every listed scope', async () => {
+    expect((await call('/reports', { sub: 'user-1', scope: 'reports:read' })).statusCode).toBe(200);
+
+    const denied = await call('/reports', { sub: 'user-1', scope: 'orders:read' });
+    expect(denied.statusCode).toBe(403);
+    expect(JSON.parse(denied.body!)).toMatchObject({ status: 403, detail: 'Access denied' });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should allow members of any listed group', async () => {
+    expect((await call('/support', { sub: 'u', 'cognito:groups': '[support]' })).statusCode).toBe(
+      200
+    );
+    expect((await call('/support', { sub: 'u', 'cognito:groups': '[billing]' })).statusCode).toBe(
+      403
+    );
+  });
+
+  it('should match the business role of the caller', async () => {
+    expect((await call('/admin', { sub: 'admin-1' })).statusCode).toBe(200);
+    expect((await call('/admin', { sub: 'user-1' })).statusCode).toBe(403);
+    expect(resolveRole).toHaveBeenCalledWith('user-1', expect.any(AbortSignal));
+  });
+
+  it('should allow owners and fall through to the handler for missing resources', async () => {
+    expect((await call('/orders/order-1', { sub: 'user-1' })).statusCode).toBe(200);
+    expect((await call('/orders/order-1', { sub: 'user-2' })).statusCode).toBe(403);
+    expect((await call('/orders/order-1', { sub: 'admin-1' })).statusCode).toBe(200);
+    expect((await call('/orders/missing', { sub: 'user-2' })).statusCode).toBe(200);
+  });
+
+  it('should answer 401 for claims that are not a Cognito token', async () => {
+    const event = createMockEventWithJWT('GET', '/reports', undefined, { sub: 'user-1' });
+
+    expect((await router(event, mockContext)).statusCode).toBe(401);
+  });
+
+  it('should authorize partner API keys by their authorizer scopes', async () => {
+    const granted = await callWithAuthorizer('GET', '/reports', {
+      lambda: { partnerId: 'acme', scopes: 'reports:read' },
+    });
+    const denied = await callWithAuthorizer('GET', '/reports', {
+      lambda: { partnerId: 'acme', scopes: ['orders:read'] },
+    });
+    const invalid = await callWithAuthorizer('GET', '/reports', { lambda: { scopes: '' } });
+
+    expect(granted.statusCode).toBe(200);
+    expect(denied.statusCode).toBe(403);
+    expect(invalid.statusCode).toBe(401);
+  });
+
+  it('should never treat API keys or IAM callers as resource owners or role holders', async () => {
+    const lambda = { partnerId: 'user-1' };
+
+    expect((await callWithAuthorizer('GET', '/orders/order-1', { lambda })).statusCode).toBe(403);
+    expect((await callWithAuthorizer('GET', '/admin', { iam })).statusCode).toBe(403);
+    expect(resolveRole).not.toHaveBeenCalledWith('user-1', expect.anything());
+  });
+
+  it('should restrict routes to IAM callers', async () => {
+    expect((await callWithAuthorizer('POST', '/internal/sync', { iam })).statusCode).toBe(200);
+    expect(
+      (
+        await router(
+          createMockEventWithJWT('POST', '/internal/sync', undefined, {
+            sub: 'user-1',
+            token_use: 'access',
+            client_id: 'app-client',
+          }),
+          mockContext
+        )
+      ).statusCode
+    ).toBe(403);
+  });
+
+  it('should leave routes without guards open', async () => {
+    expect((await call('/public')).statusCode).toBe(200);
+  });
+
+  it('should audit-log denied requests', async () => {
+    const warn = vi.spyOn(Logger.prototype, 'warn');
+
+    await call('/reports', { sub: 'user-1' });
+
+    expect(warn).toHaveBeenCalledWith('Authorization denied', {
+      requestId: expect.any(String),
+      route: 'GET /reports',
+      principalType: 'user',
+      principalId: 'user-1',
+      guard: 'scopes(reports:read)',
+    });
+    warn.mockRestore();
+  });
+
+  describe('createDynamoRoleResolver', () => {
+    it('should read businessRole from the profile and cache it', async () => {
+      const send = vi
+        .fn()
+        .mockResolvedValueOnce({ Item: marshall({ businessRole: 'admin' }) })
+        .mockResolvedValueOnce({});
+      const resolve = createDynamoRoleResolver({
+        tableName: 'test-table',
+        client: { send } as unknown as DynamoDBClient,
+      });
+
+      expect(await resolve('admin-1')).toBe('admin');
+      expect(await resolve('admin-1')).toBe('admin');
+      expect(await resolve('user-1')).toBe('customer');
+      expect(send).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { ConfigError, defineConfig, z } from '@shared/core';
+import { describe, expect, it, vi } from 'vitest';
+
+const schema = z.object({
+  TABLE_NAME: z.string().min(1),
+  CLIENT_SECRET: z.string().min(1),
+  ENABLE_MOCK: z.stringbool().default(false),
+  MAX_ITEMS: z.coerce.number().int().default(10),
+});
+
+describe('Config', () => {
+  describe('defineConfig', () => {
+    it('should validate once and return typed values', () => {
+      const env = { TABLE_NAME: 'orders', CLIENT_SECRET: 's3cret', ENABLE_MOCK: 'true' };
+      const config = defineConfig(schema, { env });
+
+      expect(config.get()).toEqual({
+        TABLE_NAME: 'orders',
+        CLIENT_SECRET: 's3cret',
+        ENABLE_MOCK: true,
+        MAX_ITEMS: 10,
+      });
+
+      env.TABLE_NAME = 'changed';
+      expect(config.get().TABLE_NAME).toBe('orders');
+    });
+
+    it('should report every invalid variable in one error', () => {
+      const config = defineConfig(schema, { env: { ENABLE_MOCK: 'maybe' } });
+
+      expect(() => config.get()).toThrow(ConfigError);
+      try {
+        config.get();
+      } catch (error) {
+        expect((error as ConfigError).issues.map(issue => issue.key)).toEqual([
+          'TABLE_NAME',
+          'CLIENT_SECRET',
+          'ENABLE_MOCK',
+        ]);
+        expect((error as ConfigError).message).toMatch(
+          /^Invalid configuration:\n {2}- TABLE_NAME: /
+        );
+      }
+    });
+
+    it('should require load() for references', async () => {
+      const secrets = {
+        get: vi.fn(async (reference: string) => `resolved(${reference})`),
+        invalidate: vi.fn(),
+      };
+      const config = defineConfig(schema, {
+        env: { TABLE_NAME: 'orders', CLIENT_SECRET: 'secretsmanager:auth/client#secret' },
+        secrets,
+      });
+
+      expect(() => config.get()).toThrow(/must be resolved with load\(\) before get\(\)/);
+
+      await expect(config.load()).resolves.toMatchObject({
+        CLIENT_SECRET: 'resolved(secretsmanager:auth/client#secret)',
+      });
+      expect(config.get().CLIENT_SECRET).toBe('resolved(secretsmanager:auth/client#secret)');
+      expect(secrets.get).toHaveBeenCalledWith('secretsmanager:auth/client#secret');
+    });
+
+    it('should pick up rotated secrets on load', async () => {
+      let version = 1;
+      const config = defineConfig(schema, {
+        env: { TABLE_NAME: 'orders', CLIENT_SECRET: 'ssm:/auth/client-secret' },
+        secrets: { get: async () => `v${version}`, invalidate: vi.fn() },
+      });
+
+      expect((await config.load()).CLIENT_SECRET).toBe('v1');
+      version = 2;
+      expect((await config.load()).CLIENT_SECRET).toBe('v2');
+    });
+
+    it('should keep the last values when a refresh fails', async () => {
+      const get = vi.fn().mockResolvedValueOnce('v1').mockRejectedValueOnce(new Error('throttled'));
+      const config = defineConfig(schema, {
+        env: { TABLE_NAME: 'orders', CLIENT_SECRET: 'ssm:/auth/client-secret' },
+        secrets: { get, invalidate: vi.fn() },
+      });
+
+      await config.load();
+
+      expect((await config.load()).CLIENT_SECRET).toBe('v1');
+    });
+
+    it('should fail the first load when a reference cannot be resolved', async () => {
+      const config = defineConfig(schema, {
+        env: { TABLE_NAME: 'orders', CLIENT_SECRET: 'ssm:/missing' },
+        secrets: {
+          get: async () => {
+            throw new Error('ParameterNotFound');
+          },
+          invalidate: vi.fn(),
+        },
+      });
+
+      await expect(config.load()).rejects.toMatchObject({
+        issues: [
+          { key: 'CLIENT_SECRET', message: 'Failed to resolve ssm:/missing: ParameterNotFound' },
+        ],
+      });
+    });
+  });
+});
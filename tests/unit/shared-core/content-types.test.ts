@@ -0,0 +1,220 @@
+import {
+  createSuccessResponse,
+  HttpError,
+  MultipartFile,
+  negotiateMediaType,
+  parseContentType,
+  parseCsv,
+  parseMultipart,
+  parseNdjson,
+  parseXml,
+  serializeBody,
+} from '@shared/core';
+import { describe, expect, it } from 'vitest';
+
+describe('Content types', () => {
+  describe('parseContentType', () => {
+    it('should parse the media type and parameters', () => {
+      expect(parseContentType('Multipart/Form-Data; boundary="a;b"; charset=UTF-8')).toEqual({
+        mediaType: 'multipart/form-data',
+        parameters: { boundary: 'a;b', charset: 'UTF-8' },
+      });
+    });
+  });
+
+  describe('parseMultipart', () => {
+    const boundary = 'XyZ';
+    const body = Buffer.concat([
+      Buffer.from(
+        `--${boundary}\r\n` +
+          'Content-Disposition: form-data; name="title"\r\n\r\n' +
+          'Quarterly report\r\n' +
+          `--${boundary}\r\n` +
+          'Content-Disposition: form-data; name="tag"\r\n\r\na\r\n' +
+          `--${boundary}\r\n` +
+          'Content-Disposition: form-data; name="tag"\r\n\r\nb\r\n' +
+          `--${boundary}\r\n` +
+          'Content-Disposition: form-data; name="file"; filename="data.bin"\r\n' +
+          'Content-Type: application/octet-stream\r\n\r\n'
+      ),
+      Buffer.from([0x00, 0xff, 0x0d, 0x0a, 0x10]),
+      Buffer.from(`\r\n--${boundary}--\r\n`),
+    ]);
+
+    it('should parse fields, repeated fields and file parts', () => {
+      const result = parseMultipart(
+        body,
+        parseContentType(`multipart/form-data; boundary=${boundary}`)
+      );
+
+      expect(result.title).toBe('Quarterly report');
+      expect(result.tag).toEqual(['a', 'b']);
+
+      const file = result.file as MultipartFile;
+      expect(file.filename).toBe('data.bin');
+      expect(file.contentType).toBe('application/octet-stream');
+      expect(file.size).toBe(5);
+      expect([...file.content]).toEqual([0x00, 0xff, 0x0d, 0x0a, 0x10]);
+    });
+
+    it('should reject bodies without a boundary', () => {
+      expect(() => parseMultipart(body, parseContentType('multipart/form-data'))).toThrow(
+        'Missing multipart boundary'
+      );
+    });
+  });
+
+  describe('parseCsv', () => {
+    const csv = 'id,name,note\r\n1,Widget,"Says ""hi"", twice"\r\n2,Gadget,"multi\nline"\r\n';
+
+    it('should parse records keyed by the header row', () => {
+      expect(parseCsv(Buffer.from(csv), parseContentType('text/csv'))).toEqual([
+        { id: '1', name: 'Widget', note: 'Says "hi", twice' },
+        { id: '2', name: 'Gadget', note: 'multi\nline' },
+      ]);
+    });
+
+    it('should return raw rows with header=absent', () => {
+      expect(
+        parseCsv(Buffer.from('a,b\nc,d'), parseContentType('text/csv; header=absent'))
+      ).toEqual([
+        ['a', 'b'],
+        ['c', 'd'],
+      ]);
+    });
+
+    it('should reject rows with the wrong number of fields', () => {
+      expect(() => parseCsv(Buffer.from('a,b\n1'), parseContentType('text/csv'))).toThrow(
+        'CSV row 2 has 1 fields, expected 2'
+      );
+    });
+  });
+
+  describe('parseNdjson', () => {
+    it('should parse one value per non-empty line', () => {
+      const body = Buffer.from('{"id":1}\n\n{"id":2}\r\n');
+
+      expect(parseNdjson(body, parseContentType('application/x-ndjson'))).toEqual([
+        { id: 1 },
+        { id: 2 },
+      ]);
+    });
+  });
+
+  describe('parseXml', () => {
+    it('should parse elements, attributes, repeated elements and entities', () => {
+      const xml =
+        '<?xml version="1.0"?><!-- order --><order id="42">' +
+        '<item sku="A">Tea &amp; cake</item><item sku="B"/><note><![CDATA[<raw>]]></note>' +
+        '</order>';
+
+      expect(parseXml(Buffer.from(xml), parseContentType('application/xml'))).toEqual({
+        order: {
+          '@id': '42',
+          item: [{ '@sku': 'A', '#text': 'Tea & cake' }, { '@sku': 'B' }],
+          note: '<raw>',
+        },
+      });
+    });
+
+    it('should reject DOCTYPE declarations', () => {
+      const xml = '<!DOCTYPE x [<!ENTITY a "b">]><x>&a;</x>';
+
+      expect(() => parseXml(Buffer.from(xml), parseContentType('application/xml'))).toThrow(
+        'XML DOCTYPE is not allowed'
+      );
+    });
+
+    it('should reject mismatched tags', () => {
+      expect(() => parseXml(Buffer.from('<a><b></a>'), parseContentType('text/xml'))).toThrow();
+    });
+  });
+
+  describe('negotiateMediaType', () => {
+    it('should default to JSON without an Accept header', () => {
+      expect(negotiateMediaType(undefined)).toBe('application/json');
+      expect(negotiateMediaType('*/*')).toBe('application/json');
+    });
+
+    it('should honour quality values and specificity', () => {
+      expect(negotiateMediaType('application/json;q=0.5, text/csv')).toBe('text/csv');
+      expect(negotiateMediaType('text/*;q=0.9, application/xml')).toBe('application/xml');
+      expect(negotiateMediaType('text/*')).toBe('text/plain');
+    });
+
+    it('should skip media types excluded with q=0', () => {
+      expect(negotiateMediaType('*/*, application/json;q=0')).toBe('text/plain');
+    });
+
+    it('should return null when nothing acceptable is supported', () => {
+      expect(negotiateMediaType('image/png, text/html')).toBeNull();
+    });
+  });
+
+  describe('serializeBody', () => {
+    const rows = [
+      { id: 1, name: 'Widget, large' },
+      { id: 2, tags: ['a'] },
+    ];
+
+    it('should serialize CSV with a header row', () => {
+      expect(serializeBody(rows, 'text/csv')).toBe(
+        'id,name,tags\r\n1,"Widget, large",\r\n2,,"[""a""]"'
+      );
+    });
+
+    it('should serialize NDJSON', () => {
+      expect(serializeBody(rows, 'application/x-ndjson')).toBe(
+        '{"id":1,"name":"Widget, large"}\n{"id":2,"tags":["a"]}\n'
+      );
+    });
+
+    it('should serialize XML that round-trips through the parser', () => {
+      const xml = serializeBody({ order: { '@id': '1', note: 'a < b' } }, 'application/xml');
+
+      expect(xml).toBe(
+        '<?xml version="1.0" encoding="UTF-8"?><response><order id="1"><note>a &lt; b</note></order></response>'
+      );
+      expect(parseXml(Buffer.from(xml), parseContentType('application/xml'))).toEqual({
+        response: { order: { '@id': '1', note: 'a < b' } },
+      });
+    });
+
+    it('should serialize keys that are not XML names as entry elements', () => {
+      const xml = serializeBody(
+        { totals: { '2024': 10, 'first name': null, 'a"<b': ['x'], '@bad attr': 'y', ünïcode: 1 } },
+        'application/xml'
+      );
+
+      expect(xml).toBe(
+        '<?xml version="1.0" encoding="UTF-8"?><response><totals>' +
+          '<entry key="2024">10</entry><entry key="first name"/>' +
+          '<entry key="a&quot;&lt;b">x</entry><entry key="@bad attr">y</entry>' +
+          '<ünïcode>1</ünïcode></totals></response>'
+      );
+      expect(() => parseXml(Buffer.from(xml), parseContentType('application/xml'))).not.toThrow();
+    });
+  });
+
+  describe('createSuccessResponse', () => {
+    it('should serialize for the Accept header', () => {
+      const response = createSuccessResponse([{ id: 1 }], 'application/x-ndjson');
+
+      expect(response).toEqual({
+        statusCode: 200,
+        headers: { 'Content-Type': 'application/x-ndjson' },
+        body: '{"id":1}\n',
+      });
+    });
+
+    it('should throw 406 when the Accept header cannot be satisfied', () => {
+      expect(() => createSuccessResponse({}, 'image/png')).toThrow(HttpError);
+
+      try {
+        createSuccessResponse({}, 'image/png');
+      } catch (error) {
+        expect((error as HttpError).statusCode).toBe(406);
+      }
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { appendVary, corsHeaders, createRouter, isOriginAllowed, Route } from '@shared/core';
+import { Context } from 'aws-lambda';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockEventWithJWT } from '../../helpers/api-gateway-event';
+
+const withHeaders = (
+  event: ReturnType<typeof createMockEventWithJWT>,
+  headers: Record<string, string>
+) => ({ ...event, headers: { ...event.headers, ...headers } });
+
+describe('CORS', () => {
+  const mockContext = {} as Context;
+  const policy = {
+    origins: ['https://app.example.com', 'https://*.preview.example.com'],
+    credentials: true,
+    exposedHeaders: ['ETag', 'X-Request-Id'],
+    maxAge: 600,
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('isOriginAllowed', () => {
+    it.each([
+      ['https://app.example.com', true],
+      ['https://pr-42.preview.example.com', true],
+      ['https://a.b.preview.example.com', true],
+      ['https://preview.example.com', false],
+      ['https://evil.com', false],
+      ['https://app.example.com.evil.com', false],
+      ['http://app.example.com', false],
+    ])('should evaluate %s as %s', (origin, allowed) => {
+      expect(isOriginAllowed(origin, policy.origins)).toBe(allowed);
+    });
+
+    it('should allow any origin with *', () => {
+      expect(isOriginAllowed('https://anything.io', ['*'])).toBe(true);
+    });
+  });
+
+  describe('appendVary', () => {
+    it('should append without duplicating', () => {
+      expect(appendVary(undefined, 'Origin')).toBe('Origin');
+      expect(appendVary('Accept', 'Origin')).toBe('Accept, Origin');
+      expect(appendVary('accept, origin', 'Origin')).toBe('accept, origin');
+    });
+  });
+
+  describe('corsHeaders', () => {
+    it('should echo allowed origins with credentials and exposed headers', () => {
+      const event = withHeaders(createMockEventWithJWT('GET', '/orders'), {
+        origin: 'https://app.example.com',
+      });
+
+      expect(corsHeaders(event, { statusCode: 200 }, policy)).toEqual({
+        'Access-Control-Allow-Origin': 'https://app.example.com',
+        'Access-Control-Allow-Credentials': 'true',
+        'Access-Control-Expose-Headers': 'ETag, X-Request-Id',
+        Vary: 'Origin',
+      });
+    });
+
+    it('should only vary on Origin for disallowed origins', () => {
+      const event = withHeaders(createMockEventWithJWT('GET', '/orders'), {
+        origin: 'https://evil.com',
+      });
+
+      expect(corsHeaders(event, { statusCode: 200, headers: { Vary: 'Accept' } }, policy)).toEqual({
+        Vary: 'Accept, Origin',
+      });
+    });
+
+    it('should use * for public policies without credentials', () => {
+      const event = withHeaders(createMockEventWithJWT('GET', '/orders'), {
+        origin: 'https://anything.io',
+      });
+
+      expect(corsHeaders(event, { statusCode: 200 }, { origins: ['*'] })).toEqual({
+        'Access-Control-Allow-Origin': '*',
+      });
+    });
+  });
+
+  describe('policy validation', () => {
+    it('should reject * with credentials when the router is created', () => {
+      expect(() => createRouter([], { cors: { origins: ['*'], credentials: true } })).toThrow(
+        'CORS origins must be listed explicitly when credentials are allowed'
+      );
+      expect(() => createRouter([], { cors: { origins: ['*'] } })).not.toThrow();
+    });
+  });
+
+  describe('router integration', () => {
+    const routes: Route[] = [
+      { method: 'GET', path: '/orders', handler: vi.fn().mockResolvedValue({ ok: true }) },
+      { method: 'POST', path: '/orders', handler: vi.fn() },
+    ];
+    const router = createRouter(routes, { cors: policy });
+
+    it('should answer preflight requests with the allowed methods and headers', async () => {
+      const response = await router(
+        withHeaders(createMockEventWithJWT('OPTIONS', '/orders'), {
+          origin: 'https://pr-7.preview.example.com',
+          'access-control-request-method': 'POST',
+          'access-control-request-headers': 'content-type, authorization',
+        }),
+        mockContext
+      );
+
+      expect(response.statusCode).toBe(204);
+      expect(response.headers).toEqual({
+        Allow: 'GET, HEAD, OPTIONS, POST',
+        'Access-Control-Allow-Origin': 'https://pr-7.preview.example.com',
+        'Access-Control-Allow-Credentials': 'true',
+        'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS, POST',
+        'Access-Control-Allow-Headers': 'content-type, authorization',
+        'Access-Control-Max-Age': '600',
+        Vary: 'Origin, Access-Control-Request-Headers',
+      });
+    });
+
+    it('should add CORS headers to success responses', async () => {
+      const response = await router(
+        withHeaders(createMockEventWithJWT('GET', '/orders'), {
+          origin: 'https://app.example.com',
+        }),
+        mockContext
+      );
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers).toMatchObject({
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': 'https://app.example.com',
+        'Access-Control-Expose-Headers': 'ETag, X-Request-Id',
+      });
+    });
+
+    it('should add CORS headers to error responses', async () => {
+      const response = await router(
+        withHeaders(createMockEventWithJWT('GET', '/missing'), {
+          origin: 'https://app.example.com',
+        }),
+        mockContext
+      );
+
+      expect(response.statusCode).toBe(404);
+      expect(response.headers).toMatchObject({
+        'Content-Type': 'application/problem+json',
+        'Access-Control-Allow-Origin': 'https://app.example.com',
+      });
+    });
+
+    it('should leave responses untouched without a policy', async () => {
+      const response = await createRouter(routes)(
+        withHeaders(createMockEventWithJWT('GET', '/orders'), {
+          origin: 'https://app.example.com',
+        }),
+        mockContext
+      );
+
+      expect(response.headers).toEqual({
+        'Content-Type': 'application/json',
+        ETag: expect.any(String),
+      });
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  createRouter,
+  HttpError,
+  InternalServerError,
+  NotFoundError,
+  Route,
+  toHttpError,
+  userNotFoundMappings,
+  withErrorMapping,
+} from '@shared/core';
+import { Context } from 'aws-lambda';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockEventWithJWT } from '../../helpers/api-gateway-event';
+
+// Shape of AWS SDK v3 service exceptions
+const awsException = (name: string, message: string, fault: 'client' | 'server' = 'client') =>
+  Object.assign(new Error(message), { name, $fault: fault, $metadata: { httpStatusCode: 400 } });
+
+describe('Error mapping', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('toHttpError', () => {
+    it('should pass HttpErrors through unchanged', () => {
+      const error = new NotFoundError('Order not found');
+
+      expect(toHttpError(error)).toBe(error);
+    });
+
+    it.each([
+      ['NotAuthorizedException', 401],
+      ['UserNotFoundException', 400],
+      ['UsernameExistsException', 409],
+      ['InvalidPasswordException', 422],
+      ['TooManyRequestsException', 429],
+      ['ConditionalCheckFailedException', 409],
+    ])('should map %s to %i', (name, statusCode) => {
+      const httpError = toHttpError(awsException(name, 'Cognito says no'));
+
+      expect(httpError).toBeInstanceOf(HttpError);
+      expect(httpError.statusCode).toBe(statusCode);
+      expect(httpError.cause).toBeInstanceOf(Error);
+    });
+
+    it('should keep client fault messages and use mapped messages when set', () => {
+      expect(
+        toHttpError(awsException('UsernameExistsException', 'User already exists')).message
+      ).toBe('User already exists');
+      expect(toHttpError(awsException('CodeMismatchException', 'Invalid code')).message).toBe(
+        'Invalid confirmation code'
+      );
+    });
+
+    it('should turn unknown and unmapped errors into a generic 500', () => {
+      const original = new Error('socket hang up');
+      const httpError = toHttpError(original);
+
+      expect(httpError).toBeInstanceOf(InternalServerError);
+      expect(httpError.message).toBe('Internal server error');
+      expect(httpError.cause).toBe(original);
+      expect(toHttpError(awsException('InternalErrorException', 'boom', 'server')).statusCode).toBe(
+        500
+      );
+    });
+
+    it('should not treat plain errors named like AWS exceptions as client errors', () => {
+      const error = Object.assign(new Error('x'), { name: 'NotAuthorizedException' });
+
+      expect(toHttpError(error).statusCode).toBe(500);
+    });
+  });
+
+  describe('withErrorMapping', () => {
+    it('should return the handler result', async () => {
+      const handler = withErrorMapping(async (value: number) => value * 2);
+
+      await expect(handler(21)).resolves.toBe(42);
+    });
+
+    it('should rethrow mapped errors and apply overrides', async () => {
+      const handler = withErrorMapping(
+        async () => {
+          throw awsException('UserNotFoundException', 'User does not exist.');
+        },
+        { UserNotFoundException: { statusCode: 401, message: 'Incorrect username or password.' } }
+      );
+
+      await expect(handler()).rejects.toMatchObject({
+        statusCode: 401,
+        message: 'Incorrect username or password.',
+      });
+    });
+  });
+
+  describe('UserNotFoundException', () => {
+    it('should not reveal missing accounts unless a route opts in', async () => {
+      const error = awsException('UserNotFoundException', 'User does not exist.');
+      const lookup = withErrorMapping(async () => {
+        throw error;
+      }, userNotFoundMappings);
+
+      expect(toHttpError(error)).toMatchObject({
+        statusCode: 400,
+        message: 'Request could not be completed',
+      });
+      await expect(lookup()).rejects.toMatchObject({ statusCode: 404, message: 'User not found' });
+    });
+  });
+
+  describe('router integration', () => {
+    it('should map AWS exceptions thrown by unwrapped handlers', async () => {
+      const handler = vi.fn().mockRejectedValue(awsException('NotAuthorizedException', 'Nope'));
+      const routes: Route[] = [{ method: 'POST', path: '/login', handler }];
+
+      const response = await createRouter(routes)(
+        createMockEventWithJWT('POST', '/login'),
+        {} as Context
+      );
+
+      expect(response.statusCode).toBe(401);
+      expect(JSON.parse(response.body!)).toMatchObject({ code: 'UNAUTHORIZED', detail: 'Nope' });
+    });
+  });
+});
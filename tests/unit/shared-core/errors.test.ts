@@ -0,0 +1,110 @@
+import {
+  ConflictError,
+  createErrorResponse,
+  HttpError,
+  MethodNotAllowedError,
+  NotFoundError,
+  TooManyRequestsError,
+  toFieldErrors,
+  toProblemDetails,
+  UnprocessableEntityError,
+  ValidationError,
+} from '@shared/core';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { createMockEventWithJWT } from '../../helpers/api-gateway-event';
+
+describe('Errors', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('domain error classes', () => {
+    it.each([
+      [new NotFoundError(), 404, 'NOT_FOUND', 'Not found'],
+      [new ConflictError('Email taken'), 409, 'CONFLICT', 'Email taken'],
+      [new UnprocessableEntityError(), 422, 'UNPROCESSABLE_ENTITY', 'Unprocessable entity'],
+      [new TooManyRequestsError(), 429, 'TOO_MANY_REQUESTS', 'Too many requests'],
+    ])('should carry status, code and message (%s)', (error, statusCode, code, message) => {
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.statusCode).toBe(statusCode);
+      expect(error.code).toBe(code);
+      expect(error.message).toBe(message);
+    });
+
+    it('should derive codes for plain HttpErrors from the status', () => {
+      expect(new HttpError(418, 'Short and stout').code).toBe('I_M_A_TEAPOT');
+    });
+
+    it('should allow services to define their own codes', () => {
+      class OrderNotFoundError extends NotFoundError {
+        constructor(orderId: string) {
+          super(`Order ${orderId} not found`);
+          this.code = 'ORDER_NOT_FOUND';
+        }
+      }
+
+      const problem = toProblemDetails(new OrderNotFoundError('42'));
+
+      expect(problem).toMatchObject({
+        type: 'urn:problem-type:order-not-found',
+        status: 404,
+        code: 'ORDER_NOT_FOUND',
+        detail: 'Order 42 not found',
+      });
+    });
+
+    it('should set the Allow header for MethodNotAllowedError', () => {
+      const response = createErrorResponse(new MethodNotAllowedError('Nope', ['GET', 'HEAD']));
+
+      expect(response.headers).toEqual({
+        'Content-Type': 'application/problem+json',
+        Allow: 'GET, HEAD',
+      });
+    });
+  });
+
+  describe('toFieldErrors', () => {
+    it('should convert Zod issues to JSON pointers', () => {
+      const schema = z.object({
+        items: z.array(z.object({ quantity: z.number().positive() })),
+        'a/b': z.string(),
+      });
+      const result = schema.safeParse({ items: [{ quantity: -1 }], 'a/b': 1 });
+
+      expect(toFieldErrors(result.error!.issues)).toEqual([
+        { pointer: '#/items/0/quantity', detail: expect.any(String), code: 'too_small' },
+        { pointer: '#/a~1b', detail: expect.any(String), code: 'invalid_type' },
+      ]);
+    });
+  });
+
+  describe('createErrorResponse', () => {
+    it('should correlate the problem with the request', () => {
+      const event = createMockEventWithJWT('GET', '/orders/42');
+      const body = JSON.parse(createErrorResponse(new NotFoundError(), event).body!);
+
+      expect(body.instance).toBe('/orders/42');
+      expect(body.requestId).toBe(event.requestContext.requestId);
+    });
+
+    it('should expose validation errors under `errors`', () => {
+      const errors = [{ pointer: '#/email', detail: 'Invalid email', code: 'invalid_format' }];
+      const body = JSON.parse(createErrorResponse(new ValidationError('Invalid', errors)).body!);
+
+      expect(body.code).toBe('VALIDATION_FAILED');
+      expect(body.errors).toEqual(errors);
+      expect(body.details).toBeUndefined();
+    });
+
+    it('should not leak messages of unknown errors', () => {
+      const body = JSON.parse(createErrorResponse(new Error('connection string: secret')).body!);
+
+      expect(body).toMatchObject({
+        type: 'urn:problem-type:internal-server-error',
+        status: 500,
+        detail: 'Internal server error',
+      });
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { createEventDispatcher, EventRoute, marshall, z } from '@shared/core';
+import { Context, DynamoDBRecord, SQSRecord } from 'aws-lambda';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mockContext = {} as Context;
+
+const eventBridgeEvent = (detailType: string, detail: unknown, source = 'orders-service') => ({
+  version: '0',
+  id: `evt-${detailType}`,
+  'detail-type': detailType,
+  source,
+  account: '123456789012',
+  time: '2025-01-01T00:00:00Z',
+  region: 'ap-southeast-1',
+  resources: [] as string[],
+  detail,
+});
+
+const sqsRecord = (messageId: string, body: unknown, queue = 'notifications'): SQSRecord =>
+  ({
+    messageId,
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+    eventSource: 'aws:sqs',
+    eventSourceARN: `arn:aws:sqs:ap-southeast-1:123456789012:${queue}`,
+  }) as SQSRecord;
+
+const streamRecord = (
+  sequenceNumber: string,
+  eventName: 'INSERT' | 'MODIFY' | 'REMOVE',
+  images: { newImage?: Record<string, unknown>; oldImage?: Record<string, unknown> }
+): DynamoDBRecord =>
+  ({
+    eventID: `stream-${sequenceNumber}`,
+    eventName,
+    eventSource: 'aws:dynamodb',
+    dynamodb: {
+      SequenceNumber: sequenceNumber,
+      NewImage: images.newImage && marshall(images.newImage),
+      OldImage: images.oldImage && marshall(images.oldImage),
+    },
+  }) as DynamoDBRecord;
+
+describe('createEventDispatcher', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+  });
+
+  describe('SQS', () => {
+    it('should route EventBridge envelopes by detail-type and plain messages by queue', async () => {
+      const orderCreated = vi.fn();
+      const auditMessage = vi.fn();
+      const dispatch = createEventDispatcher([
+        { source: 'eventbridge', type: 'ORDER_CREATED', handler: orderCreated },
+        { source: 'sqs', type: 'audit', handler: auditMessage },
+      ]);
+
+      const response = await dispatch(
+        {
+          Records: [
+            sqsRecord('m1', eventBridgeEvent('ORDER_CREATED', { orderId: 'o1' })),
+            sqsRecord('m2', { action: 'login' }, 'audit'),
+          ],
+        },
+        mockContext
+      );
+
+      expect(response).toEqual({ batchItemFailures: [] });
+      expect(orderCreated.mock.calls[0][0].event).toMatchObject({
+        source: 'eventbridge',
+        type: 'ORDER_CREATED',
+        payload: { orderId: 'o1' },
+        id: 'evt-ORDER_CREATED',
+      });
+      expect(auditMessage.mock.calls[0][0].event).toMatchObject({
+        source: 'sqs',
+        type: 'audit',
+        payload: { action: 'login' },
+        id: 'm2',
+      });
+    });
+
+    it('should report only failed and invalid messages', async () => {
+      const dispatch = createEventDispatcher([
+        {
+          source: 'eventbridge',
+          type: 'ORDER_CREATED',
+          schema: z.object({ orderId: z.string() }),
+          handler: ({ event }) => {
+            if (event.payload.orderId === 'fail') throw new Error('downstream unavailable');
+          },
+        },
+      ]);
+
+      const response = await dispatch(
+        {
+          Records: [
+            sqsRecord('ok', eventBridgeEvent('ORDER_CREATED', { orderId: 'o1' })),
+            sqsRecord('failing', eventBridgeEvent('ORDER_CREATED', { orderId: 'fail' })),
+            sqsRecord('invalid', eventBridgeEvent('ORDER_CREATED', { orderId: 42 })),
+          ],
+        },
+        mockContext
+      );
+
+      expect(response).toEqual({
+        batchItemFailures: [{ itemIdentifier: 'failing' }, { itemIdentifier: 'invalid' }],
+      });
+    });
+
+    it('should stop at the first failure on FIFO queues', async () => {
+      const handled: string[] = [];
+      const dispatch = createEventDispatcher([
+        {
+          source: 'sqs',
+          handler: ({ event }) => {
+            if (event.payload === 'b') throw new Error('boom');
+            handled.push(event.payload);
+          },
+        },
+      ]);
+
+      const response = await dispatch(
+        {
+          Records: ['a', 'b', 'c'].map(body => sqsRecord(body, body, 'orders.fifo')),
+        },
+        mockContext
+      );
+
+      expect(handled).toEqual(['a']);
+      expect(response).toEqual({
+        batchItemFailures: [{ itemIdentifier: 'b' }, { itemIdentifier: 'c' }],
+      });
+    });
+
+    it('should skip unmatched events unless configured to fail them', async () => {
+      const records = { Records: [sqsRecord('m1', eventBridgeEvent('USER_DELETED', {}))] };
+
+      await expect(createEventDispatcher([])(records, mockContext)).resolves.toEqual({
+        batchItemFailures: [],
+      });
+      await expect(
+        createEventDispatcher([], { unmatched: 'fail' })(records, mockContext)
+      ).resolves.toEqual({ batchItemFailures: [{ itemIdentifier: 'm1' }] });
+    });
+  });
+
+  describe('DynamoDB Streams', () => {
+    it('should route by event name with unmarshalled images and filters', async () => {
+      const orderModified = vi.fn();
+      const routes: EventRoute[] = [
+        {
+          source: 'dynamodb',
+          type: 'MODIFY',
+          filter: ({ payload }) => payload.PK.startsWith('ORDER#'),
+          handler: orderModified,
+        },
+      ];
+
+      const response = await createEventDispatcher(routes)(
+        {
+          Records: [
+            streamRecord('1', 'MODIFY', {
+              newImage: { PK: 'ORDER#1', status: 'SHIPPED' },
+              oldImage: { PK: 'ORDER#1', status: 'PENDING' },
+            }),
+            streamRecord('2', 'MODIFY', { newImage: { PK: 'USER#1' } }),
+          ],
+        },
+        mockContext
+      );
+
+      expect(response).toEqual({ batchItemFailures: [] });
+      expect(orderModified).toHaveBeenCalledTimes(1);
+      expect(orderModified.mock.calls[0][0].event).toMatchObject({
+        type: 'MODIFY',
+        payload: { PK: 'ORDER#1', status: 'SHIPPED' },
+        oldImage: { PK: 'ORDER#1', status: 'PENDING' },
+      });
+    });
+
+    it('should fail the rest of the batch from the first failed record', async () => {
+      const dispatch = createEventDispatcher([
+        {
+          source: 'dynamodb',
+          type: 'REMOVE',
+          handler: ({ event }) => {
+            if (event.payload.PK === 'ORDER#2') throw new Error('boom');
+          },
+        },
+      ]);
+
+      const response = await dispatch(
+        {
+          Records: ['1', '2', '3'].map(n =>
+            streamRecord(n, 'REMOVE', { oldImage: { PK: `ORDER#${n}` } })
+          ),
+        },
+        mockContext
+      );
+
+      expect(response).toEqual({
+        batchItemFailures: [{ itemIdentifier: '2' }, { itemIdentifier: '3' }],
+      });
+    });
+  });
+
+  describe('EventBridge', () => {
+    it('should route scheduled events by rule name', async () => {
+      const nightly = vi.fn();
+      const dispatch = createEventDispatcher([
+        { source: 'schedule', type: 'nightly-cleanup', handler: nightly },
+      ]);
+
+      await dispatch(
+        {
+          ...eventBridgeEvent('Scheduled Event', {}, 'aws.events'),
+          resources: ['arn:aws:events:ap-southeast-1:123456789012:rule/nightly-cleanup'],
+        },
+        mockContext
+      );
+
+      expect(nightly).toHaveBeenCalledTimes(1);
+    });
+
+    it('should rethrow failures so Lambda retries the invocation', async () => {
+      const dispatch = createEventDispatcher([
+        {
+          source: 'eventbridge',
+          type: 'ORDER_CREATED',
+          schema: z.object({ orderId: z.string() }),
+          handler: vi.fn(),
+        },
+      ]);
+
+      await expect(
+        dispatch(eventBridgeEvent('ORDER_CREATED', { total: 10 }), mockContext)
+      ).rejects.toMatchObject({
+        name: 'ValidationError',
+        message: 'Validation failed for eventbridge event ORDER_CREATED',
+      });
+    });
+  });
+
+  it('should reject unsupported events', async () => {
+    await expect(createEventDispatcher([])({} as any, mockContext)).rejects.toThrow(
+      'Unsupported event'
+    );
+  });
+});
@@ -0,0 +1,206 @@
+import {
+  computeETag,
+  createRouter,
+  matchesIfNoneMatch,
+  negotiateEncoding,
+  rateLimit,
+  RateLimitStore,
+  Route,
+} from '@shared/core';
+import { Context } from 'aws-lambda';
+import { brotliDecompressSync, gunzipSync } from 'zlib';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockEventWithJWT } from '../../helpers/api-gateway-event';
+
+const withHeaders = (
+  event: ReturnType<typeof createMockEventWithJWT>,
+  headers: Record<string, string>
+) => ({ ...event, headers: { ...event.headers, ...headers } });
+
+describe('Compression and HTTP caching', () => {
+  const mockContext = {} as Context;
+  const order = {
+    orderId: 'order-1',
+    items: Array.from({ length: 50 }, (_, i) => ({ productId: `product-${i}`, quantity: i })),
+  };
+  const routes: Route[] = [
+    {
+      method: 'GET',
+      path: '/orders/{orderId}',
+      handler: () => order,
+      cacheControl: 'private, no-cache',
+    },
+    { method: 'GET', path: '/small', handler: () => ({ ok: true }) },
+    { method: 'POST', path: '/orders', handler: () => order },
+  ];
+  const router = createRouter(routes);
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('negotiateEncoding', () => {
+    it.each([
+      ['gzip, deflate, br', 'br'],
+      ['gzip', 'gzip'],
+      ['br;q=0.5, gzip', 'gzip'],
+      ['*', 'br'],
+      ['*, br;q=0', 'gzip'],
+      ['identity', null],
+      ['', null],
+    ])('should pick %j -> %s', (acceptEncoding, expected) => {
+      expect(negotiateEncoding(acceptEncoding)).toBe(expected);
+    });
+  });
+
+  describe('matchesIfNoneMatch', () => {
+    it('should use weak comparison and support lists and *', () => {
+      expect(matchesIfNoneMatch('"abc"', '"abc"')).toBe(true);
+      expect(matchesIfNoneMatch('W/"abc"', '"abc"')).toBe(true);
+      expect(matchesIfNoneMatch('"xyz", "abc"', '"abc"')).toBe(true);
+      expect(matchesIfNoneMatch('*', '"abc"')).toBe(true);
+      expect(matchesIfNoneMatch('"xyz"', '"abc"')).toBe(false);
+      expect(matchesIfNoneMatch(undefined, '"abc"')).toBe(false);
+    });
+
+    it('should compute stable strong ETags', () => {
+      expect(computeETag('body')).toBe(computeETag('body'));
+      expect(computeETag('body')).not.toBe(computeETag('other'));
+      expect(computeETag('body')).toMatch(/^"[\w-]+"$/);
+    });
+  });
+
+  describe('router integration', () => {
+    it('should compress large bodies for Accept-Encoding', async () => {
+      const response = await router(
+        withHeaders(createMockEventWithJWT('GET', '/orders/order-1'), {
+          'accept-encoding': 'gzip',
+        }),
+        mockContext
+      );
+
+      expect(response.statusCode).toBe(200);
+      expect(response.isBase64Encoded).toBe(true);
+      expect(response.headers).toMatchObject({
+        'Content-Encoding': 'gzip',
+        Vary: 'Accept-Encoding',
+        'Cache-Control': 'private, no-cache',
+      });
+      expect(JSON.parse(gunzipSync(Buffer.from(response.body!, 'base64')).toString())).toEqual(
+        order
+      );
+    });
+
+    it('should prefer brotli', async () => {
+      const response = await router(
+        withHeaders(createMockEventWithJWT('GET', '/orders/order-1'), {
+          'accept-encoding': 'gzip, br',
+        }),
+        mockContext
+      );
+
+      expect(response.headers!['Content-Encoding']).toBe('br');
+      expect(
+        JSON.parse(brotliDecompressSync(Buffer.from(response.body!, 'base64')).toString())
+      ).toEqual(order);
+    });
+
+    it('should leave small bodies and disabled compression uncompressed', async () => {
+      const event = withHeaders(createMockEventWithJWT('GET', '/small'), {
+        'accept-encoding': 'gzip',
+      });
+      const small = await router(event, mockContext);
+      const disabled = await createRouter(routes, { compression: false })(
+        withHeaders(createMockEventWithJWT('GET', '/orders/order-1'), {
+          'accept-encoding': 'gzip',
+        }),
+        mockContext
+      );
+
+      expect(small.headers!['Content-Encoding']).toBeUndefined();
+      expect(small.body).toBe('{"ok":true}');
+      expect(disabled.isBase64Encoded).toBeUndefined();
+      expect(JSON.parse(disabled.body!)).toEqual(order);
+    });
+
+    it('should return 304 when If-None-Match matches the ETag', async () => {
+      const first = await router(createMockEventWithJWT('GET', '/orders/order-1'), mockContext);
+      const etag = first.headers!.ETag as string;
+
+      const second = await router(
+        withHeaders(createMockEventWithJWT('GET', '/orders/order-1'), { 'if-none-match': etag }),
+        mockContext
+      );
+
+      expect(etag).toMatch(/^"[\w-]+"$/);
+      expect(second.statusCode).toBe(304);
+      expect(second.body).toBe('');
+      expect(second.headers).toEqual({
+        ETag: etag,
+        'Cache-Control': 'private, no-cache',
+        Vary: 'Accept-Encoding',
+      });
+    });
+
+    it('should keep deprecation and rate limit headers on 304 responses', async () => {
+      const store: RateLimitStore = {
+        consume: async () => ({ allowed: true, remaining: 9, resetSeconds: 6 }),
+      };
+      const deprecatedRouter = createRouter([
+        {
+          method: 'GET',
+          path: '/orders/{orderId}',
+          handler: () => order,
+          cacheControl: 'private, no-cache',
+          deprecation: { since: '2025-01-01T00:00:00Z', link: 'https://example.com/migrate' },
+          middlewares: [rateLimit({ store, limit: 10 })],
+        },
+      ]);
+      const first = await deprecatedRouter(
+        createMockEventWithJWT('GET', '/orders/order-1'),
+        mockContext
+      );
+
+      const second = await deprecatedRouter(
+        withHeaders(createMockEventWithJWT('GET', '/orders/order-1'), {
+          'if-none-match': first.headers!.ETag as string,
+        }),
+        mockContext
+      );
+
+      expect(second.statusCode).toBe(304);
+      expect(second.headers).toMatchObject({
+        Deprecation: '@1735689600',
+        Link: '<https://example.com/migrate>; rel="deprecation"',
+        'RateLimit-Limit': '10',
+        'RateLimit-Remaining': '9',
+      });
+      expect(second.headers!['Content-Type']).toBeUndefined();
+    });
+
+    it('should tag each content coding separately', async () => {
+      const identity = await router(createMockEventWithJWT('GET', '/orders/order-1'), mockContext);
+      const gzipped = await router(
+        withHeaders(createMockEventWithJWT('GET', '/orders/order-1'), {
+          'accept-encoding': 'gzip',
+        }),
+        mockContext
+      );
+
+      expect(gzipped.headers!.ETag).not.toBe(identity.headers!.ETag);
+    });
+
+    it('should not add caching headers to non-GET requests or when disabled', async () => {
+      const post = await router(createMockEventWithJWT('POST', '/orders'), mockContext);
+      const disabled = await createRouter(routes, { etag: false })(
+        createMockEventWithJWT('GET', '/orders/order-1'),
+        mockContext
+      );
+
+      expect(post.headers!.ETag).toBeUndefined();
+      expect(post.headers!['Cache-Control']).toBeUndefined();
+      expect(disabled.headers!.ETag).toBeUndefined();
+      expect(disabled.headers!['Cache-Control']).toBe('private, no-cache');
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import {
+  createDynamoIdempotencyStore,
+  createRouter,
+  DynamoDBClient,
+  idempotency,
+  IdempotencyRecord,
+  IdempotencyStore,
+  marshall,
+  Route,
+} from '@shared/core';
+import { Context } from 'aws-lambda';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockEventWithJWT } from '../../helpers/api-gateway-event';
+
+const createMemoryStore = () => {
+  const records = new Map<string, IdempotencyRecord>();
+  const store: IdempotencyStore = {
+    acquire: async record => {
+      const existing = records.get(record.key);
+      if (existing) return existing;
+      records.set(record.key, record);
+      return undefined;
+    },
+    complete: async record => {
+      records.set(record.key, record);
+    },
+    release: async key => {
+      records.delete(key);
+    },
+  };
+  return { store, records };
+};
+
+const postOrder = (body: unknown, key?: string, sub = 'user-1') => {
+  const event = createMockEventWithJWT('POST', '/orders', body, { sub });
+  return key ? { ...event, headers: { ...event.headers, 'idempotency-key': key } } : event;
+};
+
+describe('Idempotency', () => {
+  const mockContext = {} as Context;
+  let memory: ReturnType<typeof createMemoryStore>;
+  let handler: ReturnType<typeof vi.fn>;
+  let router: ReturnType<typeof createRouter>;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    memory = createMemoryStore();
+    let orderNumber = 0;
+    handler = vi.fn(async () => ({
+      statusCode: 201,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ orderId: `order-${++orderNumber}` }),
+    }));
+    const routes: Route[] = [
+      {
+        method: 'POST',
+        path: '/orders',
+        handler,
+        middlewares: [idempotency({ store: memory.store })],
+      },
+    ];
+    router = createRouter(routes);
+  });
+
+  describe('middleware', () => {
+    it('should replay the stored response for a retried key', async () => {
+      const first = await router(postOrder({ total: 10 }, 'key-1'), mockContext);
+      const retry = await router(postOrder({ total: 10 }, 'key-1'), mockContext);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(first.statusCode).toBe(201);
+      expect(retry.statusCode).toBe(201);
+      expect(retry.body).toBe(first.body);
+      expect(retry.headers).toMatchObject({ 'Idempotent-Replayed': 'true' });
+      expect([...memory.records.values()][0]).toMatchObject({
+        status: 'COMPLETED',
+        response: { statusCode: 201 },
+      });
+    });
+
+    it('should return 409 when a key is reused with a different payload', async () => {
+      await router(postOrder({ total: 10 }, 'key-1'), mockContext);
+      const response = await router(postOrder({ total: 99 }, 'key-1'), mockContext);
+
+      expect(response.statusCode).toBe(409);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return 409 while the first request is in progress', async () => {
+      const inProgress = createRouter([
+        {
+          method: 'POST',
+          path: '/orders',
+          handler,
+          middlewares: [
+            idempotency({
+              store: {
+                ...memory.store,
+                acquire: async record => ({ ...record, status: 'IN_PROGRESS' }),
+              },
+            }),
+          ],
+        },
+      ]);
+
+      const response = await inProgress(postOrder({ total: 10 }, 'key-1'), mockContext);
+
+      expect(response.statusCode).toBe(409);
+      expect(JSON.parse(response.body!).detail).toContain('still in progress');
+    });
+
+    it('should scope keys to the caller and route', async () => {
+      await router(postOrder({ total: 10 }, 'key-1'), mockContext);
+      await router(postOrder({ total: 10 }, 'key-1', 'user-2'), mockContext);
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(memory.records.size).toBe(2);
+    });
+
+    it('should release the key when the handler fails', async () => {
+      handler.mockRejectedValueOnce(new Error('DynamoDB timeout'));
+
+      const failed = await router(postOrder({ total: 10 }, 'key-1'), mockContext);
+      const retry = await router(postOrder({ total: 10 }, 'key-1'), mockContext);
+
+      expect(failed.statusCode).toBe(500);
+      expect(retry.statusCode).toBe(201);
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep the key locked when the response cannot be stored', async () => {
+      vi.spyOn(memory.store, 'complete').mockRejectedValueOnce(new Error('DynamoDB timeout'));
+
+      const first = await router(postOrder({ total: 10 }, 'key-1'), mockContext);
+      const retry = await router(postOrder({ total: 10 }, 'key-1'), mockContext);
+
+      expect(first.statusCode).toBe(201);
+      expect(retry.statusCode).toBe(409);
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect([...memory.records.values()][0]).toMatchObject({ status: 'IN_PROGRESS' });
+    });
+
+    it('should keep the key locked when storing the response times out', async () => {
+      vi.useFakeTimers();
+      const timedOut = createRouter([
+        {
+          method: 'POST',
+          path: '/orders',
+          handler,
+          timeoutMs: 100,
+          middlewares: [
+            idempotency({ store: { ...memory.store, complete: () => new Promise(() => {}) } }),
+          ],
+        },
+      ]);
+
+      const pending = timedOut(postOrder({ total: 10 }, 'key-1'), mockContext);
+      await vi.advanceTimersByTimeAsync(100);
+      const first = await pending;
+      vi.useRealTimers();
+      const retry = await timedOut(postOrder({ total: 10 }, 'key-1'), mockContext);
+
+      expect(first.statusCode).toBe(504);
+      expect(retry.statusCode).toBe(409);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pass requests without a key through unless required', async () => {
+      await router(postOrder({ total: 10 }), mockContext);
+      await router(postOrder({ total: 10 }), mockContext);
+
+      const strict = createRouter([
+        {
+          method: 'POST',
+          path: '/orders',
+          handler,
+          middlewares: [idempotency({ store: memory.store, required: true })],
+        },
+      ]);
+      const response = await strict(postOrder({ total: 10 }), mockContext);
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(memory.records.size).toBe(0);
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('createDynamoIdempotencyStore', () => {
+    const record: IdempotencyRecord = {
+      key: 'user#POST /orders#key-1',
+      requestHash: 'hash',
+      status: 'IN_PROGRESS',
+      expiresAt: 2_000_000_000,
+      lockExpiresAt: 1_900_000_000,
+    };
+
+    it('should claim free keys with a conditional put', async () => {
+      const send = vi.fn().mockResolvedValue({});
+      const store = createDynamoIdempotencyStore({
+        tableName: 'test-table',
+        client: { send } as unknown as DynamoDBClient,
+      });
+
+      await expect(store.acquire(record)).resolves.toBeUndefined();
+
+      const input = send.mock.calls[0][0].input;
+      expect(input.TableName).toBe('test-table');
+      expect(input.ConditionExpression).toContain('attribute_not_exists(PK)');
+      expect(input.Item).toMatchObject({
+        PK: { S: 'IDEMPOTENCY#user#POST /orders#key-1' },
+        SK: { S: 'IDEMPOTENCY' },
+        ttl: { N: '2000000000' },
+      });
+    });
+
+    it('should return the existing record when the key is taken', async () => {
+      const stored = {
+        ...record,
+        status: 'COMPLETED',
+        response: { statusCode: 201, body: '{}' },
+      };
+      const send = vi.fn().mockRejectedValue(
+        Object.assign(new Error('The conditional request failed'), {
+          name: 'ConditionalCheckFailedException',
+          Item: marshall({
+            PK: `IDEMPOTENCY#${record.key}`,
+            SK: 'IDEMPOTENCY',
+            requestHash: 'hash',
+            status: 'COMPLETED',
+            response: JSON.stringify(stored.response),
+            ttl: record.expiresAt,
+          }),
+        })
+      );
+      const store = createDynamoIdempotencyStore({
+        tableName: 'test-table',
+        client: { send } as unknown as DynamoDBClient,
+      });
+
+      await expect(store.acquire(record)).resolves.toEqual({
+        ...stored,
+        lockExpiresAt: undefined,
+      });
+    });
+  });
+});
@@ -1,11 +1,16 @@
 import {
   APIGatewayProxyEventV2WithJWTAuthorizer,
+  getCallerId,
+  getCognitoClaims,
   getJWTClaim,
   getJWTClaims,
+  getPrincipal,
   getUserEmail,
   getUserId,
   HttpError,
+  parseJWTClaims,
   requireJWTClaims,
+  requirePrincipal,
   requireUserId,
 } from '@shared/core';
 import { describe, expect, it } from 'vitest';
@@ -263,4 +268,155 @@ describe('JWT Utils', () => {
       }
     });
   });
+
+  describe('typed claims', () => {
+    // API Gateway delivers every claim as a string
+    const accessTokenClaims = {
+      sub: 'user-123',
+      token_use: 'access',
+      client_id: 'app-client',
+      username: 'jane',
+      scope: 'orders/read orders/write',
+      'cognito:groups': '[admin support]',
+      exp: '1700000000',
+      iat: '1699996400',
+    };
+    const idTokenClaims = {
+      sub: 'user-123',
+      token_use: 'id',
+      aud: 'app-client',
+      'cognito:username': 'jane',
+      email: 'jane@example.com',
+      email_verified: 'true',
+      'custom:businessRole': 'admin',
+      'custom:tenantId': 'tenant-1',
+    };
+
+    it('should parse access token claims', () => {
+      const claims = parseJWTClaims(accessTokenClaims);
+
+      expect(claims).toMatchObject({
+        token_use: 'access',
+        scope: ['orders/read', 'orders/write'],
+        'cognito:groups': ['admin', 'support'],
+        exp: 1700000000,
+        iat: 1699996400,
+      });
+    });
+
+    it('should parse ID token claims', () => {
+      const claims = parseJWTClaims(idTokenClaims);
+
+      expect(claims).toMatchObject({
+        token_use: 'id',
+        email_verified: true,
+        'cognito:groups': [],
+        'custom:tenantId': 'tenant-1',
+      });
+    });
+
+    it('should reject claims that are not a Cognito access or ID token', () => {
+      expect(() => parseJWTClaims({ sub: 'user-123', email: 'test@example.com' })).toThrow(
+        'Invalid JWT claims'
+      );
+      expect(() => parseJWTClaims({ ...accessTokenClaims, client_id: '' })).toThrow(HttpError);
+    });
+
+    it('should return undefined without claims', () => {
+      expect(getCognitoClaims(createMockEvent())).toBeUndefined();
+      expect(getPrincipal(createMockEvent())).toBeUndefined();
+      expect(() => requirePrincipal(createMockEvent())).toThrow(HttpError);
+    });
+
+    it('should build a principal from an access token', () => {
+      expect(getPrincipal(createMockEvent(accessTokenClaims))).toMatchObject({
+        id: 'user-123',
+        tokenUse: 'access',
+        clientId: 'app-client',
+        username: 'jane',
+        groups: ['admin', 'support'],
+        scopes: ['orders/read', 'orders/write'],
+        attributes: {},
+      });
+      expect(getPrincipal(createMockEvent(accessTokenClaims))?.type).toBe('user');
+    });
+
+    it('should build a principal with custom attributes from an ID token', () => {
+      const principal = requirePrincipal(createMockEvent(idTokenClaims));
+
+      expect(principal).toMatchObject({
+        id: 'user-123',
+        tokenUse: 'id',
+        clientId: 'app-client',
+        username: 'jane',
+        email: 'jane@example.com',
+        emailVerified: true,
+        groups: [],
+        scopes: [],
+        attributes: { businessRole: 'admin', tenantId: 'tenant-1' },
+      });
+    });
+  });
+
+  describe('authorizer principals', () => {
+    const withAuthorizer = (authorizer: Record<string, any>) => {
+      const event = createMockEvent();
+      return { ...event, requestContext: { ...event.requestContext, authorizer } };
+    };
+    const iam = {
+      accessKey: 'ASIAEXAMPLE',
+      accountId: '123456789012',
+      callerId: 'AROAEXAMPLE:orders',
+      principalOrgId: 'o-example',
+      sourceIp: '10.0.0.1',
+      user: 'AROAEXAMPLE:orders',
+      userAgent: 'aws-sdk-js',
+      userArn: 'arn:aws:sts::123456789012:assumed-role/orders-service/orders',
+    };
+
+    it('should build an API key principal from the Lambda authorizer context', () => {
+      const event = withAuthorizer({
+        lambda: { partnerId: 'acme', apiKeyId: 'key-1', scopes: 'orders:read', tier: 'gold' },
+      });
+
+      expect(getPrincipal(event)).toMatchObject({
+        type: 'apiKey',
+        id: 'acme',
+        apiKeyId: 'key-1',
+        groups: [],
+        scopes: ['orders:read'],
+        attributes: { tier: 'gold' },
+      });
+      expect(getCallerId(event)).toBe('apiKey:acme');
+    });
+
+    it('should reject Lambda authorizer context without a partner ID', () => {
+      expect(() => getPrincipal(withAuthorizer({ lambda: { apiKeyId: 'key-1' } }))).toThrow(
+        'Invalid authorizer context'
+      );
+    });
+
+    it('should build an IAM principal from SigV4 callers', () => {
+      const event = withAuthorizer({ iam });
+
+      expect(requirePrincipal(event)).toEqual({
+        type: 'iam',
+        id: iam.userArn,
+        accountId: '123456789012',
+        userArn: iam.userArn,
+        callerId: 'AROAEXAMPLE:orders',
+        accessKey: 'ASIAEXAMPLE',
+        principalOrgId: 'o-example',
+        groups: [],
+        scopes: [],
+        attributes: {},
+      });
+      expect(getCallerId(event)).toBe(`iam:${iam.userArn}`);
+    });
+
+    it('should identify users by sub and anonymous requests as undefined', () => {
+      expect(getCallerId(createMockEvent({ sub: 'user-123' }))).toBe('user-123');
+      expect(getCallerId(createMockEvent())).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,207 @@
+import {
+  cognitoIssuer,
+  createCognitoJwtVerifier,
+  createJwksKeySource,
+  createRouter,
+  createStaticKeySource,
+  getPrincipal,
+  HttpError,
+  jwtAuthentication,
+} from '@shared/core';
+import { Context } from 'aws-lambda';
+import { generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockEventWithJWT } from '../../helpers/api-gateway-event';
+
+const userPoolId = 'ap-southeast-1_TestPool';
+const issuer = cognitoIssuer(userPoolId);
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const { privateKey: otherPrivateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const signToken = (
+  claims: Record<string, unknown> = {},
+  {
+    kid = 'key-1',
+    alg = 'RS256',
+    key = privateKey,
+  }: { kid?: string; alg?: string; key?: KeyObject } = {}
+) => {
+  const now = Math.floor(Date.now() / 1000);
+  const unsigned = `${encode({ kid, alg })}.${encode({
+    sub: 'user-123',
+    iss: issuer,
+    token_use: 'access',
+    client_id: 'app-client',
+    scope: 'orders/read',
+    'cognito:groups': ['admin', 'support'],
+    iat: now,
+    exp: now + 3600,
+    ...claims,
+  })}`;
+  return `${unsigned}.${sign('RSA-SHA256', Buffer.from(unsigned), key).toString('base64url')}`;
+};
+
+describe('JWT verification', () => {
+  const verifier = createCognitoJwtVerifier({
+    userPoolId,
+    clientId: 'app-client',
+    keySource: createStaticKeySource({ 'key-1': publicKey }),
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should derive the issuer from the user pool ID', () => {
+    expect(issuer).toBe('https://cognito-idp.ap-southeast-1.amazonaws.com/ap-southeast-1_TestPool');
+  });
+
+  it('should accept valid access and ID tokens', async () => {
+    await expect(verifier.verify(signToken())).resolves.toMatchObject({ sub: 'user-123' });
+    await expect(
+      verifier.verify(signToken({ token_use: 'id', client_id: undefined, aud: 'app-client' }))
+    ).resolves.toMatchObject({ token_use: 'id' });
+  });
+
+  it.each([
+    ['a malformed token', 'not-a-jwt', 'Malformed token'],
+    ['another algorithm', signToken({}, { alg: 'HS256' }), 'Unsupported token algorithm'],
+    ['an unknown key', signToken({}, { kid: 'key-2' }), 'Unknown token signing key'],
+    ['a forged signature', signToken({}, { key: otherPrivateKey }), 'Invalid token signature'],
+    ['another issuer', signToken({ iss: 'https://evil.example.com' }), 'Invalid token issuer'],
+    ['another app client', signToken({ client_id: 'other-client' }), 'Invalid token audience'],
+    ['a refresh token', signToken({ token_use: 'refresh' }), 'Invalid token use'],
+    ['an expired token', signToken({ exp: Math.floor(Date.now() / 1000) - 1 }), 'Token expired'],
+  ])('should reject %s', async (_name, token, message) => {
+    const error = await verifier.verify(token).catch(e => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.statusCode).toBe(401);
+    expect(error.message).toBe(message);
+  });
+
+  it('should restrict accepted token types', async () => {
+    const idOnly = createCognitoJwtVerifier({
+      userPoolId,
+      clientId: 'app-client',
+      tokenUse: ['id'],
+      keySource: createStaticKeySource({ 'key-1': publicKey }),
+    });
+
+    await expect(idOnly.verify(signToken())).rejects.toThrow('Invalid token use');
+  });
+
+  describe('createJwksKeySource', () => {
+    const jwks = { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1' }] };
+
+    it('should fetch and cache the key set', async () => {
+      const fetch = vi.fn(async () => new Response(JSON.stringify(jwks)));
+      vi.stubGlobal('fetch', fetch);
+      const keySource = createJwksKeySource({ jwksUri: `${issuer}/.well-known/jwks.json` });
+
+      expect(await keySource('key-1')).toBeInstanceOf(KeyObject);
+      expect(await keySource('key-1')).toBeInstanceOf(KeyObject);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(fetch.mock.calls[0]).toContain(`${issuer}/.well-known/jwks.json`);
+    });
+
+    it('should refetch for unknown keys after the cooldown', async () => {
+      vi.useFakeTimers();
+      const fetch = vi.fn(async () => new Response(JSON.stringify(jwks)));
+      vi.stubGlobal('fetch', fetch);
+      const keySource = createJwksKeySource({ jwksUri: 'https://example.com/jwks.json' });
+
+      await keySource('key-1');
+      expect(await keySource('rotated')).toBeUndefined();
+      expect(fetch).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(60_000);
+      await keySource('rotated');
+      expect(fetch).toHaveBeenCalledTimes(2);
+      vi.useRealTimers();
+    });
+
+    it('should keep cached keys when a refresh fails', async () => {
+      vi.useFakeTimers();
+      const fetch = vi
+        .fn()
+        .mockResolvedValueOnce(new Response(JSON.stringify(jwks)))
+        .mockResolvedValueOnce(new Response('unavailable', { status: 503 }));
+      vi.stubGlobal('fetch', fetch);
+      const keySource = createJwksKeySource({ jwksUri: 'https://example.com/jwks.json' });
+
+      await keySource('key-1');
+      vi.advanceTimersByTime(60 * 60 * 1000);
+
+      expect(await keySource('key-1')).toBeInstanceOf(KeyObject);
+      expect(fetch).toHaveBeenCalledTimes(2);
+      vi.useRealTimers();
+    });
+  });
+
+  describe('jwtAuthentication middleware', () => {
+    const mockContext = {} as Context;
+    const router = createRouter(
+      [{ method: 'GET', path: '/me', handler: ({ event }) => getPrincipal(event) ?? null }],
+      { middlewares: [jwtAuthentication({ verifier })] }
+    );
+
+    const withAuthorization = (authorization: string) => {
+      const event = createMockEventWithJWT('GET', '/me');
+      return { ...event, headers: { ...event.headers, authorization } };
+    };
+
+    beforeEach(() => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('should expose verified claims like the API Gateway authorizer', async () => {
+      const response = await router(withAuthorization(`Bearer ${signToken()}`), mockContext);
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body!)).toMatchObject({
+        id: 'user-123',
+        tokenUse: 'access',
+        groups: ['admin', 'support'],
+        scopes: ['orders/read'],
+      });
+    });
+
+    it('should reject invalid bearer tokens with 401', async () => {
+      const token = signToken({ exp: 1 });
+      const response = await router(withAuthorization(`Bearer ${token}`), mockContext);
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should trust claims already set by API Gateway', async () => {
+      const event = {
+        ...createMockEventWithJWT('GET', '/me', undefined, {
+          sub: 'gateway-user',
+          token_use: 'id',
+          aud: 'app-client',
+        }),
+        headers: { authorization: 'Bearer ignored' },
+      };
+
+      const response = await router(event, mockContext);
+
+      expect(JSON.parse(response.body!)).toMatchObject({ id: 'gateway-user' });
+    });
+
+    it('should leave anonymous requests alone unless authentication is required', async () => {
+      const strict = createRouter([{ method: 'GET', path: '/me', handler: () => ({}) }], {
+        middlewares: [jwtAuthentication({ verifier, required: true })],
+      });
+
+      expect((await router(createMockEventWithJWT('GET', '/me'), mockContext)).statusCode).toBe(
+        200
+      );
+      expect((await strict(createMockEventWithJWT('GET', '/me'), mockContext)).statusCode).toBe(
+        401
+      );
+    });
+  });
+});
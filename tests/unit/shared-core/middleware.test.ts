@@ -0,0 +1,194 @@
+import { createRouter, HttpError, Middleware, Route } from '@shared/core';
+import { Context } from 'aws-lambda';
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { createMockEventWithJWT } from '../../helpers/api-gateway-event';
+
+describe('Middleware pipeline', () => {
+  const mockContext = {
+    awsRequestId: 'test-request-id',
+    getRemainingTimeInMillis: () => 30000,
+  } as unknown as Context;
+
+  const tracking = (
+    name: string,
+    calls: string[],
+    hooks: Partial<Middleware> = {}
+  ): Middleware => ({
+    name,
+    before: () => {
+      calls.push(`${name}:before`);
+    },
+    after: () => {
+      calls.push(`${name}:after`);
+    },
+    onError: () => {
+      calls.push(`${name}:onError`);
+    },
+    ...hooks,
+  });
+
+  it('should run before hooks in order and after hooks in reverse', async () => {
+    const calls: string[] = [];
+    const handler = vi.fn(() => {
+      calls.push('handler');
+      return { ok: true };
+    });
+    const routes: Route[] = [
+      { method: 'GET', path: '/test', handler, middlewares: [tracking('route', calls)] },
+    ];
+
+    const router = createRouter(routes, {
+      middlewares: [tracking('first', calls), tracking('second', calls)],
+    });
+    const response = await router(createMockEventWithJWT('GET', '/test'), mockContext);
+
+    expect(response.statusCode).toBe(200);
+    expect(calls).toEqual([
+      'first:before',
+      'second:before',
+      'route:before',
+      'handler',
+      'route:after',
+      'second:after',
+      'first:after',
+    ]);
+  });
+
+  it('should short-circuit when a before hook returns a response', async () => {
+    const calls: string[] = [];
+    const handler = vi.fn();
+    const cached = { statusCode: 200, body: '{"cached":true}' };
+
+    const router = createRouter([{ method: 'GET', path: '/test', handler }], {
+      middlewares: [
+        tracking('outer', calls),
+        tracking('cache', calls, { before: () => cached }),
+        tracking('inner', calls),
+      ],
+    });
+    const response = await router(createMockEventWithJWT('GET', '/test'), mockContext);
+
+    expect(response).toBe(cached);
+    expect(handler).not.toHaveBeenCalled();
+    expect(calls).toEqual(['outer:before', 'outer:after']);
+  });
+
+  it('should let after hooks replace the response', async () => {
+    const addHeader: Middleware = {
+      after: ({ response }) => {
+        if (typeof response === 'object') {
+          return { ...response, headers: { ...response.headers, 'X-Custom': 'yes' } };
+        }
+      },
+    };
+
+    const router = createRouter([{ method: 'GET', path: '/test', handler: () => ({ ok: 1 }) }], {
+      middlewares: [addHeader],
+    });
+    const response = await router(createMockEventWithJWT('GET', '/test'), mockContext);
+
+    expect(response.headers).toEqual({
+      'Content-Type': 'application/json',
+      'X-Custom': 'yes',
+      ETag: expect.any(String),
+    });
+  });
+
+  it('should run onError hooks in reverse and fall back to the error handler', async () => {
+    const calls: string[] = [];
+    const handler = vi.fn().mockRejectedValue(new HttpError(403, 'Forbidden'));
+
+    const router = createRouter([{ method: 'GET', path: '/test', handler }], {
+      middlewares: [tracking('first', calls), tracking('second', calls)],
+    });
+    const response = await router(createMockEventWithJWT('GET', '/test'), mockContext);
+
+    expect(response.statusCode).toBe(403);
+    expect(calls).toEqual(['first:before', 'second:before', 'second:onError', 'first:onError']);
+  });
+
+  it('should recover when an onError hook returns a response', async () => {
+    const handler = vi.fn().mockRejectedValue(new Error('boom'));
+    const recovery: Middleware = {
+      onError: ({ error }) => ({
+        statusCode: 503,
+        body: JSON.stringify({ message: (error as Error).message }),
+      }),
+    };
+
+    const router = createRouter([{ method: 'GET', path: '/test', handler }], {
+      middlewares: [recovery],
+    });
+    const response = await router(createMockEventWithJWT('GET', '/test'), mockContext);
+
+    expect(response.statusCode).toBe(503);
+    expect(JSON.parse(response.body!)).toEqual({ message: 'boom' });
+  });
+
+  it('should route 404 errors through router-level onError hooks', async () => {
+    const onError = vi.fn();
+
+    const router = createRouter([], { middlewares: [{ onError }] });
+    const response = await router(createMockEventWithJWT('GET', '/missing'), mockContext);
+
+    expect(response.statusCode).toBe(404);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ error: expect.any(HttpError) }));
+  });
+
+  it('should run route middlewares before schema validation', async () => {
+    const guard: Middleware = {
+      before: () => {
+        throw new HttpError(401, 'Unauthorized');
+      },
+    };
+    const routes: Route[] = [
+      {
+        method: 'POST',
+        path: '/test',
+        handler: vi.fn(),
+        schema: { body: z.object({ name: z.string() }) },
+        middlewares: [guard],
+      },
+    ];
+
+    const router = createRouter(routes);
+    const response = await router(createMockEventWithJWT('POST', '/test', {}), mockContext);
+
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('should expose the matched route and parsed event to route middlewares', async () => {
+    const before = vi.fn();
+    const handler = vi.fn().mockResolvedValue({});
+    const routes: Route[] = [
+      { method: 'GET', path: '/items/{id}', handler, middlewares: [{ before }] },
+    ];
+
+    const router = createRouter(routes);
+    await router(createMockEventWithJWT('GET', '/items/42'), mockContext);
+
+    expect(before).toHaveBeenCalledWith(
+      expect.objectContaining({
+        route: routes[0],
+        parsedEvent: expect.objectContaining({ pathParameters: { id: '42' } }),
+      })
+    );
+  });
+
+  it('should return a generic error response when an onError hook throws', async () => {
+    const handler = vi.fn().mockRejectedValue(new Error('boom'));
+    const broken: Middleware = {
+      onError: () => {
+        throw new Error('hook failure');
+      },
+    };
+
+    const router = createRouter([{ method: 'GET', path: '/test', handler }], {
+      middlewares: [broken],
+    });
+    const response = await router(createMockEventWithJWT('GET', '/test'), mockContext);
+
+    expect(response.statusCode).toBe(500);
+  });
+});
@@ -0,0 +1,129 @@
+import { createRouter, generateOpenApiDocument, openApiRoute, Route } from '@shared/core';
+import { Context } from 'aws-lambda';
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { createMockEventWithJWT } from '../../helpers/api-gateway-event';
+
+describe('OpenAPI generation', () => {
+  const handler = vi.fn();
+  const options = { title: 'Test API', version: '1.2.3' };
+
+  const routes: Route[] = [
+    {
+      method: 'POST',
+      path: '/orders',
+      handler,
+      schema: {
+        body: z.object({ total: z.number().positive(), notes: z.string().optional() }),
+        response: { 201: z.object({ orderId: z.string().uuid() }) },
+      },
+      docs: { summary: 'Create an order', tags: ['orders'] },
+    },
+    {
+      method: 'GET',
+      path: '/orders/{orderId}',
+      handler,
+      schema: {
+        path: z.object({ orderId: z.string().uuid() }),
+        query: z.object({ expand: z.string().optional(), page: z.string() }),
+        response: z.object({ orderId: z.string() }),
+      },
+    },
+    {
+      method: 'GET',
+      path: '/files/{proxy+}',
+      handler,
+      docs: { public: true, deprecated: true, operationId: 'getFile' },
+    },
+  ];
+
+  it('should describe document metadata and security schemes', () => {
+    const document = generateOpenApiDocument(routes, {
+      ...options,
+      description: 'Docs',
+      servers: [{ url: 'https://api.example.com' }],
+    });
+
+    expect(document.openapi).toBe('3.1.0');
+    expect(document.info).toEqual({ title: 'Test API', version: '1.2.3', description: 'Docs' });
+    expect(document.servers).toEqual([{ url: 'https://api.example.com' }]);
+    expect(document.components.securitySchemes.cognitoJwt).toMatchObject({
+      type: 'http',
+      scheme: 'bearer',
+      bearerFormat: 'JWT',
+    });
+  });
+
+  it('should document request bodies and per-status responses', () => {
+    const operation = generateOpenApiDocument(routes, options).paths['/orders'].post;
+
+    expect(operation.operationId).toBe('postOrders');
+    expect(operation.summary).toBe('Create an order');
+    expect(operation.tags).toEqual(['orders']);
+    expect(operation.requestBody.content['application/json'].schema).toMatchObject({
+      type: 'object',
+      properties: { total: { type: 'number' }, notes: { type: 'string' } },
+      required: ['total'],
+    });
+    expect(operation.responses['201'].content['application/json'].schema).toMatchObject({
+      properties: { orderId: { type: 'string', format: 'uuid' } },
+    });
+    expect(operation.responses.default.content['application/problem+json'].schema).toEqual({
+      $ref: '#/components/schemas/ProblemDetails',
+    });
+    expect(operation.security).toEqual([{ cognitoJwt: [] }]);
+  });
+
+  it('should document path and query parameters', () => {
+    const operation = generateOpenApiDocument(routes, options).paths['/orders/{orderId}'].get;
+
+    expect(operation.operationId).toBe('getOrdersOrderId');
+    expect(operation.parameters).toEqual([
+      {
+        name: 'orderId',
+        in: 'path',
+        required: true,
+        schema: expect.objectContaining({ format: 'uuid' }),
+      },
+      { name: 'expand', in: 'query', required: false, schema: { type: 'string' } },
+      { name: 'page', in: 'query', required: true, schema: { type: 'string' } },
+    ]);
+    expect(operation.responses['200']).toBeDefined();
+  });
+
+  it('should convert greedy segments and honour route docs', () => {
+    const operation = generateOpenApiDocument(routes, options).paths['/files/{proxy}'].get;
+
+    expect(operation.operationId).toBe('getFile');
+    expect(operation.deprecated).toBe(true);
+    expect(operation.security).toEqual([]);
+    expect(operation.parameters).toEqual([
+      { name: 'proxy', in: 'path', required: true, schema: { type: 'string' } },
+    ]);
+    expect(operation.responses['200']).toEqual({ description: 'Successful response' });
+  });
+
+  it('should omit security when the document is not secured', () => {
+    const document = generateOpenApiDocument(routes, { ...options, secured: false });
+
+    expect(document.paths['/orders'].post.security).toEqual([]);
+  });
+
+  it('should serve the document from GET /openapi.json', async () => {
+    const router = createRouter(routes, { openapi: options });
+    const response = await router(
+      createMockEventWithJWT('GET', '/openapi.json'),
+      {} as unknown as Context
+    );
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body!).paths['/orders'].post.operationId).toBe('postOrders');
+  });
+
+  it('should build the document once and support a custom path', () => {
+    const docsRoute = openApiRoute(routes, options, '/docs/openapi.json');
+
+    expect(docsRoute.path).toBe('/docs/openapi.json');
+    expect(docsRoute.handler({} as any)).toBe(docsRoute.handler({} as any));
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  createCursorCodec,
+  HttpError,
+  paginatedResponseSchema,
+  paginationQuerySchema,
+  PaginationQuerySchema,
+  toPaginatedResponse,
+} from '@shared/core';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+
+describe('Pagination', () => {
+  const codec = createCursorCodec({ secret: 'test-secret' });
+  const lastEvaluatedKey = {
+    PK: 'ORDER#1',
+    SK: 'DETAILS',
+    GSI1PK: 'USER#abc',
+    GSI1SK: 'ORDER#2024-01-01T00:00:00.000Z#1',
+  };
+
+  const expectInvalid = (fn: () => unknown, message = 'Invalid pagination cursor') => {
+    try {
+      fn();
+      expect.fail('Expected cursor to be rejected');
+    } catch (error) {
+      expect(error).toBeInstanceOf(HttpError);
+      expect((error as HttpError).statusCode).toBe(400);
+      expect((error as HttpError).message).toBe(message);
+    }
+  };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('createCursorCodec', () => {
+    it('should round-trip keys through an opaque cursor', () => {
+      const cursor = codec.encode(lastEvaluatedKey, 'abc');
+
+      expect(cursor).toMatch(/^[\w-]+\.[\w-]+$/);
+      expect(cursor).not.toContain('ORDER#1');
+      expect(codec.decode(cursor, 'abc')).toEqual(lastEvaluatedKey);
+    });
+
+    it('should reject tampered cursors', () => {
+      const [, signature] = codec.encode(lastEvaluatedKey).split('.');
+      const forged = Buffer.from(JSON.stringify({ k: { PK: 'ORDER#2' } })).toString('base64url');
+
+      expectInvalid(() => codec.decode(`${forged}.${signature}`));
+      expectInvalid(() => codec.decode('not-a-cursor'));
+    });
+
+    it('should reject cursors signed with another secret', () => {
+      const other = createCursorCodec({ secret: 'other-secret' });
+
+      expectInvalid(() => codec.decode(other.encode(lastEvaluatedKey)));
+    });
+
+    it('should reject cursors issued for another scope', () => {
+      const cursor = codec.encode(lastEvaluatedKey, 'user-a');
+
+      expectInvalid(() => codec.decode(cursor, 'user-b'));
+      expectInvalid(() => codec.decode(cursor));
+    });
+
+    it('should reject expired cursors', () => {
+      vi.useFakeTimers();
+      const expiring = createCursorCodec({ secret: 'test-secret', ttlSeconds: 60 });
+      const cursor = expiring.encode(lastEvaluatedKey);
+
+      vi.advanceTimersByTime(61_000);
+
+      expectInvalid(() => expiring.decode(cursor), 'Pagination cursor has expired');
+    });
+
+    it('should require a secret', () => {
+      expect(() => createCursorCodec({ secret: '' })).toThrow('Cursor signing secret is required');
+    });
+  });
+
+  describe('paginationQuerySchema', () => {
+    it('should coerce the limit and apply the default', () => {
+      expect(PaginationQuerySchema.parse({ limit: '5', cursor: 'abc' })).toEqual({
+        limit: 5,
+        cursor: 'abc',
+      });
+      expect(PaginationQuerySchema.parse({})).toEqual({ limit: 20 });
+    });
+
+    it('should enforce the limit bounds', () => {
+      const schema = paginationQuerySchema({ defaultLimit: 10, maxLimit: 50 });
+
+      expect(schema.parse({}).limit).toBe(10);
+      expect(schema.safeParse({ limit: '51' }).success).toBe(false);
+      expect(schema.safeParse({ limit: '0' }).success).toBe(false);
+      expect(schema.safeParse({ limit: 'abc' }).success).toBe(false);
+    });
+  });
+
+  describe('toPaginatedResponse', () => {
+    it('should encode the next cursor from LastEvaluatedKey', () => {
+      const response = toPaginatedResponse(
+        [{ id: 1 }],
+        { limit: 1, lastEvaluatedKey },
+        codec,
+        'abc'
+      );
+
+      expect(response.success).toBe(true);
+      expect(response.data).toEqual([{ id: 1 }]);
+      expect(codec.decode(response.pagination.nextCursor!, 'abc')).toEqual(lastEvaluatedKey);
+    });
+
+    it('should return a null cursor on the last page', () => {
+      const response = toPaginatedResponse([], { limit: 20 }, codec);
+
+      expect(response.pagination).toEqual({ limit: 20, nextCursor: null });
+    });
+
+    it('should match the paginated response schema', () => {
+      const schema = paginatedResponseSchema(z.object({ id: z.number() }));
+      const response = toPaginatedResponse([{ id: 1 }], { limit: 1, lastEvaluatedKey }, codec);
+
+      expect(schema.safeParse(response).success).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import {
+  createDynamoRateLimitStore,
+  createRouter,
+  DynamoDBClient,
+  marshall,
+  rateLimit,
+  RateLimitStore,
+  Route,
+  takeToken,
+  TokenBucketState,
+} from '@shared/core';
+import { Context } from 'aws-lambda';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockEventWithJWT } from '../../helpers/api-gateway-event';
+
+const createMemoryStore = () => {
+  const buckets = new Map<string, TokenBucketState>();
+  const store: RateLimitStore = {
+    consume: async (key, policy) => {
+      const { state, result } = takeToken(buckets.get(key), policy, Date.now());
+      if (state) buckets.set(key, state);
+      return result;
+    },
+  };
+  return { store, buckets };
+};
+
+describe('Rate limiting', () => {
+  const mockContext = {} as Context;
+  const policy = { capacity: 2, refillPerSecond: 1 };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('takeToken', () => {
+    it('should start full and take one token', () => {
+      expect(takeToken(undefined, policy, 1_000)).toEqual({
+        state: { tokens: 1, updatedAt: 1_000 },
+        result: { allowed: true, remaining: 1, resetSeconds: 1 },
+      });
+    });
+
+    it('should deny empty buckets with the time until the next token', () => {
+      expect(takeToken({ tokens: 0.25, updatedAt: 1_000 }, policy, 1_000)).toEqual({
+        result: { allowed: false, remaining: 0, resetSeconds: 2, retryAfterSeconds: 1 },
+      });
+    });
+
+    it('should refill over time up to the capacity', () => {
+      const { state } = takeToken({ tokens: 0, updatedAt: 0 }, policy, 60_000);
+
+      expect(state).toEqual({ tokens: 1, updatedAt: 60_000 });
+    });
+  });
+
+  describe('middleware', () => {
+    const createTestRouter = (store: RateLimitStore) => {
+      const routes: Route[] = [
+        {
+          method: 'POST',
+          path: '/auth/login',
+          handler: () => ({ ok: true }),
+          middlewares: [rateLimit({ store, limit: 2, windowSeconds: 60 })],
+        },
+      ];
+      return createRouter(routes);
+    };
+
+    it('should add RateLimit headers and return 429 with Retry-After over the limit', async () => {
+      const router = createTestRouter(createMemoryStore().store);
+      const event = createMockEventWithJWT('POST', '/auth/login');
+
+      const first = await router(event, mockContext);
+      await router(event, mockContext);
+      const limited = await router(event, mockContext);
+
+      expect(first.statusCode).toBe(200);
+      expect(first.headers).toMatchObject({
+        'RateLimit-Limit': '2',
+        'RateLimit-Remaining': '1',
+        'RateLimit-Reset': '30',
+        'RateLimit-Policy': '2;w=60',
+      });
+      expect(limited.statusCode).toBe(429);
+      expect(limited.headers).toMatchObject({
+        'Content-Type': 'application/problem+json',
+        'Retry-After': '30',
+        'RateLimit-Remaining': '0',
+      });
+    });
+
+    it('should key buckets by user, falling back to the source IP', async () => {
+      const { store, buckets } = createMemoryStore();
+      const router = createTestRouter(store);
+
+      await router(
+        createMockEventWithJWT('POST', '/auth/login', undefined, { sub: 'user-1' }),
+        mockContext
+      );
+      await router(createMockEventWithJWT('POST', '/auth/login'), mockContext);
+
+      expect([...buckets.keys()]).toEqual([
+        'POST /auth/login#user-1',
+        'POST /auth/login#127.0.0.1',
+      ]);
+    });
+
+    it('should allow requests when the store is unavailable', async () => {
+      const router = createTestRouter({ consume: vi.fn().mockRejectedValue(new Error('down')) });
+
+      const response = await router(createMockEventWithJWT('POST', '/auth/login'), mockContext);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers!['RateLimit-Limit']).toBeUndefined();
+    });
+
+    it('should limit callers before parsing the request body', async () => {
+      const router = createTestRouter(createMemoryStore().store);
+      const event = { ...createMockEventWithJWT('POST', '/auth/login'), body: '{not json' };
+
+      const first = await router(event, mockContext);
+      await router(event, mockContext);
+      const limited = await router(event, mockContext);
+
+      expect(first.statusCode).toBe(400);
+      expect(limited.statusCode).toBe(429);
+    });
+  });
+
+  describe('createDynamoRateLimitStore', () => {
+    const conditionalCheckFailed = () =>
+      Object.assign(new Error('The conditional request failed'), {
+        name: 'ConditionalCheckFailedException',
+      });
+
+    it('should write the bucket conditioned on the version it read', async () => {
+      const now = Date.now();
+      const send = vi
+        .fn()
+        .mockResolvedValueOnce({
+          Item: marshall({ PK: 'RATELIMIT#k', SK: 'RATELIMIT', tokens: 1, updatedAt: now }),
+        })
+        .mockResolvedValueOnce({});
+      const store = createDynamoRateLimitStore({
+        tableName: 'test-table',
+        client: { send } as unknown as DynamoDBClient,
+      });
+
+      const result = await store.consume('k', policy);
+
+      const put = send.mock.calls[1][0].input;
+      expect(result.allowed).toBe(true);
+      expect(put.ConditionExpression).toBe('updatedAt = :updatedAt');
+      expect(put.ExpressionAttributeValues).toEqual(marshall({ ':updatedAt': now }));
+      expect(put.Item.PK).toEqual({ S: 'RATELIMIT#k' });
+    });
+
+    it('should retry when another request updated the bucket', async () => {
+      const send = vi
+        .fn()
+        .mockResolvedValueOnce({})
+        .mockRejectedValueOnce(conditionalCheckFailed())
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({});
+      const store = createDynamoRateLimitStore({
+        tableName: 'test-table',
+        client: { send } as unknown as DynamoDBClient,
+      });
+
+      await expect(store.consume('k', policy)).resolves.toMatchObject({ allowed: true });
+      expect(send).toHaveBeenCalledTimes(4);
+    });
+
+    it('should let the request through when the bucket stays contended', async () => {
+      const send = vi.fn(async (command: { input: object }) => {
+        if ('ConditionExpression' in command.input) throw conditionalCheckFailed();
+        return {};
+      });
+      const store = createDynamoRateLimitStore({
+        tableName: 'test-table',
+        client: { send } as unknown as DynamoDBClient,
+      });
+      const routes: Route[] = [
+        {
+          method: 'POST',
+          path: '/auth/login',
+          handler: () => ({ ok: true }),
+          middlewares: [rateLimit({ store, limit: 2, windowSeconds: 60 })],
+        },
+      ];
+
+      await expect(store.consume('k', policy)).rejects.toThrow('kept changing');
+      const response = await createRouter(routes)(
+        createMockEventWithJWT('POST', '/auth/login'),
+        mockContext
+      );
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers!['RateLimit-Limit']).toBeUndefined();
+    });
+
+    it('should not write when the bucket is empty', async () => {
+      const send = vi.fn().mockResolvedValueOnce({
+        Item: marshall({ PK: 'RATELIMIT#k', SK: 'RATELIMIT', tokens: 0, updatedAt: Date.now() }),
+      });
+      const store = createDynamoRateLimitStore({
+        tableName: 'test-table',
+        client: { send } as unknown as DynamoDBClient,
+      });
+
+      await expect(store.consume('k', policy)).resolves.toMatchObject({ allowed: false });
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+  });
+});
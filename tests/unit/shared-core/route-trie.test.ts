@@ -0,0 +1,112 @@
+import { Route, RouteTrie, splitPath } from '@shared/core';
+import { describe, expect, it } from 'vitest';
+
+describe('RouteTrie', () => {
+  const handler = async () => ({});
+  const r = (method: string, path: string): Route => ({ method, path, handler });
+
+  describe('splitPath', () => {
+    it('should drop a single trailing slash', () => {
+      expect(splitPath('/users/')).toEqual(['', 'users']);
+      expect(splitPath('/')).toEqual(['', '']);
+    });
+  });
+
+  describe('match', () => {
+    const routes = [
+      r('GET', '/orders/{orderId}'),
+      r('GET', '/orders/recent'),
+      r('POST', '/orders'),
+      r('GET', '/users/{userId}/orders'),
+      r('DELETE', '/files/{proxy+}'),
+      r('GET', '/files/{proxy+}'),
+      r('GET', '/files/readme'),
+    ];
+    const trie = new RouteTrie(routes);
+
+    it('should match static routes', () => {
+      expect(trie.match('POST', '/orders')).toEqual({ route: routes[2], params: {} });
+    });
+
+    it('should prefer static over param segments regardless of declaration order', () => {
+      expect(trie.match('GET', '/orders/recent')!.route).toBe(routes[1]);
+      expect(trie.match('GET', '/orders/abc')).toEqual({
+        route: routes[0],
+        params: { orderId: 'abc' },
+      });
+    });
+
+    it('should backtrack to param branches when static branch lacks the method', () => {
+      const table = new RouteTrie([r('PUT', '/users/me'), r('GET', '/users/{id}')]);
+
+      expect(table.match('GET', '/users/me')).toEqual({
+        route: expect.objectContaining({ path: '/users/{id}' }),
+        params: { id: 'me' },
+      });
+    });
+
+    it('should match greedy segments and decode each part', () => {
+      expect(trie.match('GET', '/files/docs/a%20b.txt')).toEqual({
+        route: routes[5],
+        params: { proxy: 'docs/a b.txt' },
+      });
+    });
+
+    it('should reject malformed percent-encoding with 400', () => {
+      expect(() => trie.match('GET', '/orders/%E0%A4%A')).toThrow(
+        expect.objectContaining({ statusCode: 400 })
+      );
+      expect(() => trie.match('GET', '/files/docs/%zz')).toThrow('Malformed URL encoding in path');
+    });
+
+    it('should prefer static and param routes over greedy ones', () => {
+      expect(trie.match('GET', '/files/readme')!.route).toBe(routes[6]);
+    });
+
+    it('should require at least one segment for greedy parameters', () => {
+      expect(trie.match('GET', '/files')).toBeNull();
+      expect(trie.match('GET', '/files/')).toBeNull();
+    });
+
+    it('should treat trailing slashes as optional', () => {
+      expect(trie.match('GET', '/users/42/orders/')).toEqual({
+        route: routes[3],
+        params: { userId: '42' },
+      });
+    });
+
+    it('should not match empty parameter segments', () => {
+      expect(trie.match('GET', '/users//orders')).toBeNull();
+    });
+
+    it('should match methods case-insensitively', () => {
+      expect(trie.match('post', '/orders')!.route).toBe(routes[2]);
+    });
+
+    it('should keep the first route declared for the same method and path', () => {
+      const first = r('GET', '/dup');
+      const table = new RouteTrie([first, r('GET', '/dup/')]);
+
+      expect(table.match('GET', '/dup')!.route).toBe(first);
+    });
+
+    it('should reject greedy segments that are not last', () => {
+      expect(() => new RouteTrie([r('GET', '/{proxy+}/tail')])).toThrow(
+        'Greedy parameter must be the last segment'
+      );
+    });
+  });
+
+  describe('allowedMethods', () => {
+    it('should collect methods across all matching branches', () => {
+      const trie = new RouteTrie([
+        r('GET', '/orders/{orderId}'),
+        r('DELETE', '/orders/{orderId}'),
+        r('PUT', '/orders/recent'),
+      ]);
+
+      expect(trie.allowedMethods('/orders/recent').sort()).toEqual(['DELETE', 'GET', 'PUT']);
+      expect(trie.allowedMethods('/missing')).toEqual([]);
+    });
+  });
+});
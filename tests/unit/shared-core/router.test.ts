@@ -1,6 +1,6 @@
 import { createRouter, HttpError, Route } from '@shared/core';
 import { Context } from 'aws-lambda';
-import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { z } from 'zod';
 import { createMockEventWithJWT } from '../../helpers/api-gateway-event';
 
@@ -50,7 +50,10 @@ describe('Router', () => {
       const response = await router(event, mockContext);
 
       expect(response.statusCode).toBe(200);
-      expect(response.headers).toEqual({ 'Content-Type': 'application/json' });
+      expect(response.headers).toEqual({
+        'Content-Type': 'application/json',
+        ETag: expect.any(String),
+      });
       expect(JSON.parse(response.body!)).toEqual({ success: true });
       expect(handler).toHaveBeenCalledWith({
         event: expect.objectContaining({
@@ -59,6 +62,7 @@ describe('Router', () => {
           queryStringParameters: {},
         }),
         context: mockContext,
+        signal: expect.any(AbortSignal),
       });
     });
 
@@ -77,6 +81,7 @@ describe('Router', () => {
           pathParameters: { id: '123' },
         }),
         context: mockContext,
+        signal: expect.any(AbortSignal),
       });
     });
 
@@ -98,6 +103,7 @@ describe('Router', () => {
           queryStringParameters: { page: '1', limit: '10' },
         }),
         context: mockContext,
+        signal: expect.any(AbortSignal),
       });
     });
 
@@ -129,6 +135,7 @@ describe('Router', () => {
           body: bodyData,
         }),
         context: mockContext,
+        signal: expect.any(AbortSignal),
       });
     });
 
@@ -162,6 +169,7 @@ describe('Router', () => {
           queryStringParameters: { page: 1, limit: 10 },
         }),
         context: mockContext,
+        signal: expect.any(AbortSignal),
       });
     });
 
@@ -192,6 +200,7 @@ describe('Router', () => {
           pathParameters: { id: userId },
         }),
         context: mockContext,
+        signal: expect.any(AbortSignal),
       });
     });
 
@@ -205,7 +214,101 @@ describe('Router', () => {
 
       expect(response.statusCode).toBe(404);
       const body = JSON.parse(response.body!);
-      expect(body.error).toBe('Route not found: GET /posts');
+      expect(body).toMatchObject({
+        type: 'urn:problem-type:not-found',
+        title: 'Not Found',
+        status: 404,
+        detail: 'Route not found: GET /posts',
+        code: 'NOT_FOUND',
+        instance: '/posts',
+        requestId: event.requestContext.requestId,
+      });
+    });
+
+    it('should return 400 for malformed percent-encoding in the path', async () => {
+      const handler = vi.fn();
+      const router = createRouter([{ method: 'GET', path: '/users/{id}', handler }]);
+
+      const response = await router(createMockEventWithJWT('GET', '/users/%E0%A4%A'), mockContext);
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body!)).toMatchObject({
+        detail: 'Malformed URL encoding in path',
+      });
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should return 405 with Allow header when method is not supported', async () => {
+      const routes: Route[] = [
+        { method: 'GET', path: '/users/{id}', handler: vi.fn() },
+        { method: 'DELETE', path: '/users/{id}', handler: vi.fn() },
+      ];
+
+      const router = createRouter(routes);
+      const event = createMockEventWithJWT('POST', '/users/123');
+
+      const response = await router(event, mockContext);
+
+      expect(response.statusCode).toBe(405);
+      expect(response.headers).toEqual({
+        'Content-Type': 'application/problem+json',
+        Allow: 'DELETE, GET, HEAD, OPTIONS',
+      });
+      const body = JSON.parse(response.body!);
+      expect(body.detail).toBe('Method not allowed: POST /users/123');
+    });
+
+    it('should answer OPTIONS automatically with allowed methods', async () => {
+      const handler = vi.fn();
+      const routes: Route[] = [{ method: 'POST', path: '/orders', handler }];
+
+      const router = createRouter(routes);
+      const event = createMockEventWithJWT('OPTIONS', '/orders');
+
+      const response = await router(event, mockContext);
+
+      expect(response).toEqual({ statusCode: 204, headers: { Allow: 'OPTIONS, POST' }, body: '' });
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should prefer an explicit OPTIONS route', async () => {
+      const handler = vi.fn().mockResolvedValue({ custom: true });
+      const routes: Route[] = [{ method: 'OPTIONS', path: '/orders', handler }];
+
+      const router = createRouter(routes);
+      const response = await router(createMockEventWithJWT('OPTIONS', '/orders'), mockContext);
+
+      expect(response.statusCode).toBe(200);
+      expect(handler).toHaveBeenCalled();
+    });
+
+    it('should serve HEAD from the GET route without a body', async () => {
+      const handler = vi.fn().mockResolvedValue({ users: [] });
+      const routes: Route[] = [{ method: 'GET', path: '/users', handler }];
+
+      const router = createRouter(routes);
+      const event = createMockEventWithJWT('HEAD', '/users');
+
+      const response = await router(event, mockContext);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers).toEqual({
+        'Content-Type': 'application/json',
+        ETag: expect.any(String),
+      });
+      expect(response.body).toBe('');
+      expect(handler).toHaveBeenCalled();
+    });
+
+    it('should return error responses without a body for HEAD', async () => {
+      const handler = vi.fn().mockRejectedValue(new HttpError(404, 'Not found'));
+      const routes: Route[] = [{ method: 'GET', path: '/users/{id}', handler }];
+
+      const router = createRouter(routes);
+      const response = await router(createMockEventWithJWT('HEAD', '/users/1'), mockContext);
+
+      expect(response.statusCode).toBe(404);
+      expect(response.body).toBe('');
     });
 
     it('should return validation error for invalid body', async () => {
@@ -231,8 +334,201 @@ describe('Router', () => {
 
       expect(response.statusCode).toBe(400);
       const body = JSON.parse(response.body!);
-      expect(body.error).toBe('Validation failed for body');
-      expect(body.details).toBeDefined();
+      expect(body.code).toBe('VALIDATION_FAILED');
+      expect(body.detail).toBe('Validation failed for body');
+      expect(body.errors).toContainEqual(expect.objectContaining({ pointer: '#/email' }));
+    });
+
+    describe('response schema', () => {
+      const responseRoutes = (handler: Route['handler']): Route[] => [
+        {
+          method: 'GET',
+          path: '/orders/{id}',
+          handler,
+          schema: {
+            response: {
+              200: z.object({ id: z.string(), total: z.number() }),
+              201: z.object({ created: z.literal(true) }),
+            },
+          },
+        },
+      ];
+
+      afterEach(() => {
+        delete process.env.ENVIRONMENT;
+      });
+
+      it('should strip unknown fields from the response', async () => {
+        const handler = vi
+          .fn()
+          .mockResolvedValue({ id: '1', total: 10, PK: 'ORDER#1', GSI1SK: 'x' });
+
+        const router = createRouter(responseRoutes(handler));
+        const response = await router(createMockEventWithJWT('GET', '/orders/1'), mockContext);
+
+        expect(response.statusCode).toBe(200);
+        expect(JSON.parse(response.body!)).toEqual({ id: '1', total: 10 });
+      });
+
+      it('should select the schema by status code', async () => {
+        const handler = vi.fn().mockResolvedValue({
+          statusCode: 201,
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ created: true, internal: 'secret' }),
+        });
+
+        const router = createRouter(responseRoutes(handler));
+        const response = await router(createMockEventWithJWT('GET', '/orders/1'), mockContext);
+
+        expect(response.statusCode).toBe(201);
+        expect(response.headers).toEqual({ 'Content-Type': 'application/json' });
+        expect(JSON.parse(response.body!)).toEqual({ created: true });
+      });
+
+      it('should skip validation for status codes without a schema', async () => {
+        const handler = vi.fn().mockResolvedValue({ statusCode: 202, body: '{"any":1}' });
+
+        const router = createRouter(responseRoutes(handler));
+        const response = await router(createMockEventWithJWT('GET', '/orders/1'), mockContext);
+
+        expect(response.body).toBe('{"any":1}');
+      });
+
+      it('should fail closed with validation details outside production', async () => {
+        const handler = vi.fn().mockResolvedValue({ id: 1 });
+
+        const router = createRouter(responseRoutes(handler));
+        const response = await router(createMockEventWithJWT('GET', '/orders/1'), mockContext);
+
+        expect(response.statusCode).toBe(500);
+        const body = JSON.parse(response.body!);
+        expect(body.detail).toBe('Response validation failed');
+        expect(body.details).toContainEqual(expect.objectContaining({ pointer: '#/id' }));
+      });
+
+      it('should fail closed without details in production', async () => {
+        process.env.ENVIRONMENT = 'prod';
+        const handler = vi.fn().mockResolvedValue({ id: 1 });
+
+        const router = createRouter(responseRoutes(handler));
+        const response = await router(createMockEventWithJWT('GET', '/orders/1'), mockContext);
+
+        expect(response.statusCode).toBe(500);
+        const body = JSON.parse(response.body!);
+        expect(body.detail).toBe('Internal server error');
+        expect(body.details).toBeUndefined();
+      });
+
+      it('should apply a single schema to every status code', async () => {
+        const handler = vi.fn().mockResolvedValue('plain');
+        const routes: Route[] = [
+          { method: 'GET', path: '/text', handler, schema: { response: z.literal('plain') } },
+        ];
+
+        const router = createRouter(routes);
+        const response = await router(createMockEventWithJWT('GET', '/text'), mockContext);
+
+        expect(response.statusCode).toBe(200);
+        expect(response.body).toBe('plain');
+      });
+    });
+
+    describe('content negotiation', () => {
+      const withHeaders = (
+        event: ReturnType<typeof createMockEventWithJWT>,
+        headers: Record<string, string>
+      ) => ({ ...event, headers: { ...event.headers, ...headers } });
+
+      it('should serialize the response for the Accept header', async () => {
+        const handler = vi.fn().mockResolvedValue([{ id: '1', total: 10, secret: 'x' }]);
+        const routes: Route[] = [
+          {
+            method: 'GET',
+            path: '/orders',
+            handler,
+            schema: { response: z.array(z.object({ id: z.string(), total: z.number() })) },
+          },
+        ];
+
+        const router = createRouter(routes);
+        const response = await router(
+          withHeaders(createMockEventWithJWT('GET', '/orders'), { accept: 'text/csv' }),
+          mockContext
+        );
+
+        expect(response.statusCode).toBe(200);
+        expect(response.headers).toEqual({
+          'Content-Type': 'text/csv',
+          Vary: 'Accept',
+          ETag: expect.any(String),
+        });
+        expect(response.body).toBe('id,total\r\n1,10');
+      });
+
+      it('should return 406 when no acceptable media type is supported', async () => {
+        const handler = vi.fn();
+        const router = createRouter([{ method: 'GET', path: '/test', handler }]);
+
+        const response = await router(
+          withHeaders(createMockEventWithJWT('GET', '/test'), { accept: 'image/png' }),
+          mockContext
+        );
+
+        expect(response.statusCode).toBe(406);
+        expect(handler).not.toHaveBeenCalled();
+      });
+
+      it('should return 415 for unsupported request content types', async () => {
+        const handler = vi.fn();
+        const router = createRouter([{ method: 'POST', path: '/test', handler }]);
+
+        const response = await router(
+          withHeaders(createMockEventWithJWT('POST', '/test', 'data'), {
+            'content-type': 'application/pdf',
+          }),
+          mockContext
+        );
+
+        expect(response.statusCode).toBe(415);
+        expect(JSON.parse(response.body!).detail).toBe('Unsupported media type: application/pdf');
+        expect(handler).not.toHaveBeenCalled();
+      });
+
+      it('should return 413 for bodies over the configured limit', async () => {
+        const router = createRouter([{ method: 'POST', path: '/test', handler: vi.fn() }], {
+          maxBodySize: 8,
+        });
+
+        const response = await router(
+          createMockEventWithJWT('POST', '/test', { name: 'too long' }),
+          mockContext
+        );
+
+        expect(response.statusCode).toBe(413);
+      });
+
+      it('should use custom body parsers and serializers', async () => {
+        const handler = vi.fn().mockResolvedValue({ ok: true });
+        const router = createRouter([{ method: 'POST', path: '/test', handler }], {
+          bodyParsers: { 'application/yaml': body => ({ raw: body.toString() }) },
+          serializers: { 'application/yaml': data => `ok: ${(data as any).ok}` },
+        });
+
+        const response = await router(
+          {
+            ...withHeaders(createMockEventWithJWT('POST', '/test'), {
+              'content-type': 'application/yaml',
+              accept: 'application/yaml',
+            }),
+            body: 'a: 1',
+          },
+          mockContext
+        );
+
+        expect(handler.mock.calls[0][0].event.body).toEqual({ raw: 'a: 1' });
+        expect(response.headers).toMatchObject({ 'Content-Type': 'application/yaml' });
+        expect(response.body).toBe('ok: true');
+      });
     });
 
     it('should handle handler throwing HttpError', async () => {
@@ -248,7 +544,8 @@ describe('Router', () => {
 
       expect(response.statusCode).toBe(400);
       const body = JSON.parse(response.body!);
-      expect(body.error).toBe('Bad request');
+      expect(body.code).toBe('BAD_REQUEST');
+      expect(body.detail).toBe('Bad request');
       expect(body.details).toEqual({ field: 'email' });
     });
 
@@ -263,7 +560,8 @@ describe('Router', () => {
 
       expect(response.statusCode).toBe(500);
       const body = JSON.parse(response.body!);
-      expect(body.error).toBe('Internal server error');
+      expect(body.code).toBe('INTERNAL_SERVER_ERROR');
+      expect(body.detail).toBe('Internal server error');
     });
 
     it('should handle handler returning pre-formatted response', async () => {
@@ -321,6 +619,7 @@ describe('Router', () => {
           pathParameters: { existing: 'value', id: '123' },
         }),
         context: mockContext,
+        signal: expect.any(AbortSignal),
       });
     });
 
@@ -342,6 +641,7 @@ describe('Router', () => {
           queryStringParameters: {},
         }),
         context: mockContext,
+        signal: expect.any(AbortSignal),
       });
     });
   });
@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, expectTypeOf } from 'vitest';
 import { z } from 'zod';
 import { parseBody, validateSchema, matchPath, findMatchingRoute, route } from '@shared/core';
 import { HttpError } from '@shared/core';
@@ -124,6 +124,35 @@ describe('Routing Utils', () => {
 
       expect(result).toEqual(bodyData);
     });
+    it('should parse bodies with structured syntax suffixes', () => {
+      const event = createMockEvent('{"type":"about:blank"}', 'application/problem+json');
+
+      expect(parseBody(event)).toEqual({ type: 'about:blank' });
+    });
+
+    it('should parse multipart bodies', () => {
+      const body = '--b\r\nContent-Disposition: form-data; name="name"\r\n\r\ntest\r\n--b--';
+      const event = createMockEvent(body, 'multipart/form-data; boundary=b');
+
+      expect(parseBody(event)).toEqual({ name: 'test' });
+    });
+
+    it('should throw 415 for unsupported content types', () => {
+      const event = createMockEvent('%PDF', 'application/pdf');
+
+      expect(() => parseBody(event)).toThrow('Unsupported media type: application/pdf');
+    });
+
+    it('should throw 413 when the body exceeds the size limit', () => {
+      const event = createMockEvent(JSON.stringify({ name: 'test' }), 'application/json');
+
+      try {
+        parseBody(event, { maxBodySize: 4 });
+        expect.fail('Expected parseBody to throw');
+      } catch (error) {
+        expect((error as HttpError).statusCode).toBe(413);
+      }
+    });
   });
 
   describe('validateSchema', () => {
@@ -214,6 +243,13 @@ describe('Routing Utils', () => {
       expect(result).toEqual({ match: true, params: { name: 'John Doe' } });
     });
 
+    it('should reject malformed percent-encoding with 400', () => {
+      expect(() => matchPath('/users/{name}', '/users/%E0%A4%A')).toThrow(
+        expect.objectContaining({ statusCode: 400 })
+      );
+      expect(() => matchPath('/files/{proxy+}', '/files/a/%zz')).toThrow(HttpError);
+    });
+
     it('should not match paths with different lengths', () => {
       const result = matchPath('/users/{id}', '/users/123/extra');
 
@@ -232,6 +268,24 @@ describe('Routing Utils', () => {
       expect(result).toEqual({ match: true, params: {} });
     });
 
+    it('should match greedy proxy parameters', () => {
+      const result = matchPath('/files/{proxy+}', '/files/a/b%20c/d.txt');
+
+      expect(result).toEqual({ match: true, params: { proxy: 'a/b c/d.txt' } });
+    });
+
+    it('should not match greedy parameters without remaining segments', () => {
+      const result = matchPath('/files/{proxy+}', '/files');
+
+      expect(result).toEqual({ match: false, params: {} });
+    });
+
+    it('should ignore a trailing slash', () => {
+      const result = matchPath('/users/{id}', '/users/123/');
+
+      expect(result).toEqual({ match: true, params: { id: '123' } });
+    });
+
     it('should handle empty path segments', () => {
       const result = matchPath('', '');
 
@@ -309,7 +363,7 @@ describe('Routing Utils', () => {
       expect(result).toBeNull();
     });
 
-    it('should find first matching route in order', () => {
+    it('should prefer static segments over parameters regardless of order', () => {
       const routesWithConflict: Route[] = [
         {
           method: 'GET',
@@ -326,9 +380,15 @@ describe('Routing Utils', () => {
       const result = findMatchingRoute(routesWithConflict, 'GET', '/users/me');
 
       expect(result).toBeDefined();
-      // findMatchingRoute returns the first match, not necessarily exact matches first
+      expect(result!.route.path).toBe('/users/me');
+      expect(result!.params).toEqual({});
+    });
+
+    it('should ignore a trailing slash', () => {
+      const result = findMatchingRoute(routes, 'GET', '/users/123/');
+
       expect(result!.route.path).toBe('/users/{id}');
-      expect(result!.params).toEqual({ id: 'me' });
+      expect(result!.params).toEqual({ id: '123' });
     });
   });
 
@@ -371,5 +431,24 @@ describe('Routing Utils', () => {
         schema,
       });
     });
+
+    it('should infer handler context types from schemas', () => {
+      route({
+        method: 'POST',
+        path: '/users/{id}',
+        schema: {
+          body: z.object({ name: z.string() }),
+          query: z.object({ page: z.string().transform(s => parseInt(s)) }),
+          path: z.object({ id: z.string() }),
+          response: z.object({ id: z.string() }),
+        },
+        handler: ({ event }) => {
+          expectTypeOf(event.body).toEqualTypeOf<{ name: string }>();
+          expectTypeOf(event.queryStringParameters).toEqualTypeOf<{ page: number }>();
+          expectTypeOf(event.pathParameters).toEqualTypeOf<{ id: string }>();
+          return { id: event.pathParameters.id };
+        },
+      });
+    });
   });
 });
@@ -0,0 +1,161 @@
+import {
+  createAwsSecretFetcher,
+  createCachedSecretsProvider,
+  createFileSecretsProvider,
+  getSecretsProvider,
+  SecretsManagerClient,
+  setSecretsProvider,
+  SSMClient,
+} from '@shared/core';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('Secrets', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('createAwsSecretFetcher', () => {
+    it('should read decrypted SSM parameters', async () => {
+      const ssm = { send: vi.fn().mockResolvedValue({ Parameter: { Value: 'from-ssm' } }) };
+      const fetch = createAwsSecretFetcher({ ssm: ssm as unknown as SSMClient });
+
+      await expect(fetch('ssm:/blueprint/dev/cursor-secret')).resolves.toBe('from-ssm');
+      expect(ssm.send.mock.calls[0][0].input).toEqual({
+        Name: '/blueprint/dev/cursor-secret',
+        WithDecryption: true,
+      });
+    });
+
+    it('should read whole secrets or one key of a JSON secret', async () => {
+      const secretsManager = {
+        send: vi.fn().mockResolvedValue({ SecretString: '{"clientSecret":"abc","port":5432}' }),
+      };
+      const fetch = createAwsSecretFetcher({
+        secretsManager: secretsManager as unknown as SecretsManagerClient,
+      });
+
+      await expect(fetch('secretsmanager:auth/client#clientSecret')).resolves.toBe('abc');
+      await expect(fetch('secretsmanager:auth/client#port')).resolves.toBe('5432');
+      await expect(fetch('secretsmanager:auth/client')).resolves.toBe(
+        '{"clientSecret":"abc","port":5432}'
+      );
+      await expect(fetch('secretsmanager:auth/client#missing')).rejects.toThrow(
+        'Secret auth/client has no key missing'
+      );
+      expect(secretsManager.send.mock.calls[0][0].input).toEqual({ SecretId: 'auth/client' });
+    });
+
+    it('should reject unknown reference schemes', async () => {
+      await expect(createAwsSecretFetcher()('vault:auth/client')).rejects.toThrow(
+        'Unsupported secret reference: vault:auth/client'
+      );
+    });
+  });
+
+  describe('createCachedSecretsProvider', () => {
+    it('should reuse values until the TTL expires, then fetch the rotated value', async () => {
+      vi.useFakeTimers();
+      let version = 1;
+      const fetch = vi.fn(async () => `v${version}`);
+      const secrets = createCachedSecretsProvider(fetch, { ttlSeconds: 60 });
+
+      expect(await secrets.get('ssm:/client-secret')).toBe('v1');
+      version = 2;
+      await vi.advanceTimersByTimeAsync(30_000);
+      expect(await secrets.get('ssm:/client-secret')).toBe('v1');
+
+      await vi.advanceTimersByTimeAsync(30_000);
+      expect(await secrets.get('ssm:/client-secret')).toBe('v2');
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share one fetch between concurrent requests', async () => {
+      const fetch = vi.fn(async () => 'value');
+      const secrets = createCachedSecretsProvider(fetch);
+
+      await Promise.all([secrets.get('ssm:/a'), secrets.get('ssm:/a'), secrets.get('ssm:/a')]);
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fetch again after invalidation', async () => {
+      const fetch = vi.fn().mockResolvedValueOnce('old').mockResolvedValueOnce('new');
+      const secrets = createCachedSecretsProvider(fetch);
+
+      await secrets.get('ssm:/a');
+      secrets.invalidate('ssm:/a');
+
+      expect(await secrets.get('ssm:/a')).toBe('new');
+    });
+
+    it('should keep the cached value when a refresh fails', async () => {
+      vi.useFakeTimers();
+      const fetch = vi
+        .fn()
+        .mockResolvedValueOnce('v1')
+        .mockRejectedValueOnce(new Error('throttled'))
+        .mockResolvedValueOnce('v2');
+      const secrets = createCachedSecretsProvider(fetch, { ttlSeconds: 1 });
+
+      await secrets.get('ssm:/a');
+      await vi.advanceTimersByTimeAsync(2_000);
+
+      expect(await secrets.get('ssm:/a')).toBe('v1');
+      expect(await secrets.get('ssm:/a')).toBe('v2');
+    });
+
+    it('should not cache failed first fetches', async () => {
+      const fetch = vi.fn().mockRejectedValueOnce(new Error('denied')).mockResolvedValueOnce('ok');
+      const secrets = createCachedSecretsProvider(fetch);
+
+      await expect(secrets.get('ssm:/a')).rejects.toThrow('denied');
+      await expect(secrets.get('ssm:/a')).resolves.toBe('ok');
+    });
+  });
+
+  describe('createFileSecretsProvider', () => {
+    let dir: string;
+    let path: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'secrets-'));
+      path = join(dir, 'secrets.json');
+      writeFileSync(
+        path,
+        JSON.stringify({
+          'ssm:/dev/cursor-secret': 'cursor',
+          'secretsmanager:dev/auth/client': { clientSecret: 'client' },
+        })
+      );
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+      setSecretsProvider();
+      delete process.env.SECRETS_FILE;
+    });
+
+    it('should resolve references from the file, re-reading it on change', async () => {
+      const secrets = createFileSecretsProvider({ path });
+
+      expect(await secrets.get('ssm:/dev/cursor-secret')).toBe('cursor');
+      expect(await secrets.get('secretsmanager:dev/auth/client#clientSecret')).toBe('client');
+      await expect(secrets.get('ssm:/dev/missing')).rejects.toThrow(
+        `Secret ssm:/dev/missing not found in ${path}`
+      );
+
+      writeFileSync(path, JSON.stringify({ 'ssm:/dev/cursor-secret': 'rotated' }));
+      expect(await secrets.get('ssm:/dev/cursor-secret')).toBe('rotated');
+    });
+
+    it('should back the shared provider when SECRETS_FILE is set', async () => {
+      process.env.SECRETS_FILE = path;
+      setSecretsProvider();
+
+      expect(await getSecretsProvider().get('ssm:/dev/cursor-secret')).toBe('cursor');
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import {
+  createRouter,
+  GatewayTimeoutError,
+  rateLimit,
+  RateLimitResult,
+  Route,
+  timeoutBudgetMs,
+} from '@shared/core';
+import { Context } from 'aws-lambda';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockEventWithJWT } from '../../helpers/api-gateway-event';
+
+const contextWithRemaining = (remainingMs: number) =>
+  ({ getRemainingTimeInMillis: () => remainingMs }) as Context;
+
+describe('Timeouts', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('timeoutBudgetMs', () => {
+    it('should cap the route timeout by the remaining Lambda time less the margin', () => {
+      expect(timeoutBudgetMs(contextWithRemaining(30_000), { timeoutMs: 5_000 })).toBe(5_000);
+      expect(timeoutBudgetMs(contextWithRemaining(3_000), { timeoutMs: 5_000 })).toBe(2_000);
+      expect(timeoutBudgetMs(contextWithRemaining(3_000), { marginMs: 500 })).toBe(2_500);
+      expect(timeoutBudgetMs(contextWithRemaining(200), {})).toBe(0);
+    });
+
+    it('should fall back to the route timeout without a Lambda context', () => {
+      expect(timeoutBudgetMs({}, { timeoutMs: 1_000 })).toBe(1_000);
+      expect(timeoutBudgetMs({}, {})).toBeUndefined();
+    });
+
+    it('should count the route timeout from the start of the request', () => {
+      vi.useFakeTimers({ now: 10_000 });
+
+      expect(timeoutBudgetMs({}, { timeoutMs: 1_000, startedAt: 9_700 })).toBe(700);
+      expect(timeoutBudgetMs({}, { timeoutMs: 1_000, startedAt: 8_000 })).toBe(0);
+    });
+  });
+
+  describe('router integration', () => {
+    const slowRoute = (timeoutMs?: number) => {
+      const observed: { signal?: AbortSignal } = {};
+      const route: Route = {
+        method: 'GET',
+        path: '/slow',
+        timeoutMs,
+        handler: ({ signal }) => {
+          observed.signal = signal;
+          return new Promise(resolve => setTimeout(() => resolve({ late: true }), 10_000));
+        },
+      };
+      return { route, observed };
+    };
+
+    it('should return 504 and abort the signal when the route timeout elapses', async () => {
+      vi.useFakeTimers();
+      const { route, observed } = slowRoute(100);
+      const router = createRouter([route]);
+
+      const pending = router(createMockEventWithJWT('GET', '/slow'), contextWithRemaining(30_000));
+      await vi.advanceTimersByTimeAsync(100);
+      const response = await pending;
+
+      expect(response.statusCode).toBe(504);
+      expect(JSON.parse(response.body!)).toMatchObject({
+        code: 'GATEWAY_TIMEOUT',
+        detail: 'Request timed out',
+      });
+      expect(observed.signal!.aborted).toBe(true);
+      expect(observed.signal!.reason).toBeInstanceOf(GatewayTimeoutError);
+    });
+
+    it('should include route middlewares in the budget and abort their store calls', async () => {
+      vi.useFakeTimers();
+      let storeSignal: AbortSignal | undefined;
+      const handler = vi.fn(() => ({ ok: true }));
+      const router = createRouter([
+        {
+          method: 'GET',
+          path: '/limited',
+          timeoutMs: 100,
+          handler,
+          middlewares: [
+            rateLimit({
+              store: {
+                consume: (_key, _policy, signal) => {
+                  storeSignal = signal;
+                  return new Promise<RateLimitResult>(() => {});
+                },
+              },
+              limit: 10,
+            }),
+          ],
+        },
+      ]);
+
+      const pending = router(
+        createMockEventWithJWT('GET', '/limited'),
+        contextWithRemaining(30_000)
+      );
+      await vi.advanceTimersByTimeAsync(100);
+      const response = await pending;
+
+      expect(response.statusCode).toBe(504);
+      expect(storeSignal!.aborted).toBe(true);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should respond before the Lambda deadline', async () => {
+      vi.useFakeTimers();
+      const { route } = slowRoute();
+      const router = createRouter([route], { timeoutMarginMs: 500 });
+
+      const pending = router(createMockEventWithJWT('GET', '/slow'), contextWithRemaining(2_000));
+      await vi.advanceTimersByTimeAsync(1_500);
+
+      await expect(pending).resolves.toMatchObject({ statusCode: 504 });
+    });
+
+    it('should leave the signal untouched when the handler finishes in time', async () => {
+      let signal: AbortSignal | undefined;
+      const router = createRouter([
+        {
+          method: 'GET',
+          path: '/fast',
+          timeoutMs: 1_000,
+          handler: ctx => {
+            signal = ctx.signal;
+            return { ok: true };
+          },
+        },
+      ]);
+
+      const response = await router(
+        createMockEventWithJWT('GET', '/fast'),
+        contextWithRemaining(30_000)
+      );
+
+      expect(response.statusCode).toBe(200);
+      expect(signal!.aborted).toBe(false);
+    });
+  });
+});
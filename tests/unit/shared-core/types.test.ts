@@ -47,10 +47,16 @@ describe('Types and Response Helpers', () => {
       const response = createErrorResponse(error);
 
       expect(response.statusCode).toBe(400);
-      expect(response.headers).toEqual({ 'Content-Type': 'application/json' });
+      expect(response.headers).toEqual({ 'Content-Type': 'application/problem+json' });
 
       const body = JSON.parse(response.body!);
-      expect(body.error).toBe('Bad request');
+      expect(body).toMatchObject({
+        type: 'urn:problem-type:bad-request',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Bad request',
+        code: 'BAD_REQUEST',
+      });
       expect(body.details).toEqual({ field: 'email' });
       expect(body.timestamp).toBeDefined();
       expect(typeof body.timestamp).toBe('string');
@@ -61,10 +67,11 @@ describe('Types and Response Helpers', () => {
       const response = createErrorResponse(error);
 
       expect(response.statusCode).toBe(500);
-      expect(response.headers).toEqual({ 'Content-Type': 'application/json' });
+      expect(response.headers).toEqual({ 'Content-Type': 'application/problem+json' });
 
       const body = JSON.parse(response.body!);
-      expect(body.error).toBe('Internal server error');
+      expect(body.detail).toBe('Internal server error');
+      expect(body.code).toBe('INTERNAL_SERVER_ERROR');
       expect(body.timestamp).toBeDefined();
       expect(body.details).toBeUndefined();
     });
@@ -73,10 +80,10 @@ describe('Types and Response Helpers', () => {
       const response = createErrorResponse('String error');
 
       expect(response.statusCode).toBe(500);
-      expect(response.headers).toEqual({ 'Content-Type': 'application/json' });
+      expect(response.headers).toEqual({ 'Content-Type': 'application/problem+json' });
 
       const body = JSON.parse(response.body!);
-      expect(body.error).toBe('Internal server error');
+      expect(body.detail).toBe('Internal server error');
       expect(body.timestamp).toBeDefined();
     });
 
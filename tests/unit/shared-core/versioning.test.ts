@@ -0,0 +1,169 @@
+import {
+  createRouter,
+  deprecationHeaders,
+  generateOpenApiDocument,
+  parseVersion,
+  Route,
+} from '@shared/core';
+import { Context } from 'aws-lambda';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockEventWithJWT } from '../../helpers/api-gateway-event';
+
+const withHeaders = (
+  event: ReturnType<typeof createMockEventWithJWT>,
+  headers: Record<string, string>
+) => ({ ...event, headers: { ...event.headers, ...headers } });
+
+describe('Route versioning', () => {
+  const mockContext = {} as Context;
+  const deprecation = {
+    since: '2025-01-01T00:00:00Z',
+    sunset: '2025-12-31T00:00:00Z',
+    link: 'https://docs.example.com/migrations/orders-v2',
+  };
+  const routes: Route[] = [
+    {
+      method: 'GET',
+      path: '/orders/{orderId}',
+      version: 1,
+      deprecation,
+      handler: ({ event }) => ({ version: 1, id: event.pathParameters.orderId }),
+    },
+    {
+      method: 'GET',
+      path: '/orders/{orderId}',
+      version: 2,
+      handler: ({ event }) => ({ version: 2, id: event.pathParameters.orderId }),
+    },
+    { method: 'GET', path: '/health', handler: () => ({ ok: true }) },
+  ];
+  const router = createRouter(routes);
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it.each([
+    ['2', 2],
+    ['v3', 3],
+    ['V10', 10],
+    ['latest', undefined],
+    ['2.1', undefined],
+  ])('should parse %s as %s', (value, expected) => {
+    expect(parseVersion(value)).toBe(expected);
+  });
+
+  it('should dispatch by path prefix', async () => {
+    const v2 = await router(createMockEventWithJWT('GET', '/v2/orders/42'), mockContext);
+    const v1 = await router(createMockEventWithJWT('GET', '/v1/orders/42'), mockContext);
+
+    expect(JSON.parse(v2.body!)).toEqual({ version: 2, id: '42' });
+    expect(JSON.parse(v1.body!)).toEqual({ version: 1, id: '42' });
+    expect(v2.headers!.Vary).toBeUndefined();
+  });
+
+  it('should dispatch by Accept-Version on the shared path', async () => {
+    const response = await router(
+      withHeaders(createMockEventWithJWT('GET', '/orders/42'), { 'accept-version': 'v2' }),
+      mockContext
+    );
+
+    expect(JSON.parse(response.body!)).toEqual({ version: 2, id: '42' });
+    expect(response.headers).toMatchObject({ Vary: 'Accept-Version' });
+  });
+
+  it('should default to the lowest version, or the configured default', async () => {
+    const lowest = await router(createMockEventWithJWT('GET', '/orders/42'), mockContext);
+    const configured = await createRouter(routes, { defaultVersion: 5 })(
+      createMockEventWithJWT('GET', '/orders/42'),
+      mockContext
+    );
+
+    expect(JSON.parse(lowest.body!).version).toBe(1);
+    expect(JSON.parse(configured.body!).version).toBe(2);
+  });
+
+  it('should reject unsupported and malformed versions', async () => {
+    const unsupported = await router(
+      withHeaders(createMockEventWithJWT('GET', '/orders/42'), { 'accept-version': '3' }),
+      mockContext
+    );
+    const malformed = await router(
+      withHeaders(createMockEventWithJWT('GET', '/orders/42'), { 'accept-version': 'latest' }),
+      mockContext
+    );
+
+    expect(unsupported.statusCode).toBe(406);
+    expect(JSON.parse(unsupported.body!).details).toEqual({ supported: [1, 2] });
+    expect(malformed.statusCode).toBe(400);
+  });
+
+  it('should add deprecation headers to deprecated routes only', async () => {
+    const v1 = await router(createMockEventWithJWT('GET', '/v1/orders/42'), mockContext);
+    const v2 = await router(createMockEventWithJWT('GET', '/v2/orders/42'), mockContext);
+
+    expect(v1.headers).toMatchObject({
+      Deprecation: '@1735689600',
+      Sunset: 'Wed, 31 Dec 2025 00:00:00 GMT',
+      Link: '<https://docs.example.com/migrations/orders-v2>; rel="deprecation"',
+    });
+    expect(v2.headers!.Deprecation).toBeUndefined();
+  });
+
+  it('should add deprecation headers to error responses', async () => {
+    const failing = createRouter([
+      {
+        method: 'GET',
+        path: '/legacy',
+        deprecation: { since: '2025-06-01T00:00:00Z' },
+        handler: () => {
+          throw new Error('boom');
+        },
+      },
+    ]);
+
+    const response = await failing(createMockEventWithJWT('GET', '/legacy'), mockContext);
+
+    expect(response.statusCode).toBe(500);
+    expect(response.headers).toMatchObject({ Deprecation: '@1748736000' });
+  });
+
+  it('should leave error responses of unversioned routes to the error handler', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failing = createRouter([
+      {
+        method: 'GET',
+        path: '/current',
+        handler: () => {
+          throw new Error('boom');
+        },
+      },
+    ]);
+
+    const response = await failing(createMockEventWithJWT('GET', '/current'), mockContext);
+
+    expect(response.statusCode).toBe(500);
+    expect(error).toHaveBeenCalledTimes(1);
+  });
+
+  it('should build headers without optional fields', () => {
+    expect(deprecationHeaders({ since: new Date('2025-06-01T00:00:00Z') })).toEqual({
+      Deprecation: '@1748736000',
+    });
+  });
+
+  it('should document versions under their prefix and mark deprecated operations', () => {
+    const document = generateOpenApiDocument(routes, { title: 'Orders', version: '1.0.0' });
+
+    expect(Object.keys(document.paths)).toEqual([
+      '/v1/orders/{orderId}',
+      '/v2/orders/{orderId}',
+      '/health',
+    ]);
+    expect(document.paths['/v1/orders/{orderId}'].get).toMatchObject({
+      operationId: 'getV1OrdersOrderId',
+      deprecated: true,
+    });
+    expect(document.paths['/v2/orders/{orderId}'].get.deprecated).toBeUndefined();
+  });
+});